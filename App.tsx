@@ -1,15 +1,19 @@
 
 import React, { useState } from 'react';
-import { Player, AppView, CardSettings, Round, P2PMessage } from './types';
+import { Player, AppView, CardSettings, Round, P2PMessage, Team, PendingScan } from './types';
 import { SetupView } from './views/SetupView';
 import { GameView } from './views/GameView';
 import { SettingsView } from './views/SettingsView';
 import { ScanView } from './views/ScanView';
+import { TableScanView } from './views/TableScanView';
 import { MultiplayerModal } from './components/MultiplayerModal';
 import { Button } from './components/Button';
 import { IconX } from './components/Icons';
-import { useGameState, DEFAULT_SETTINGS } from './hooks/useGameState';
+import { useGameState, migrateSettings } from './hooks/useGameState';
 import { useMultiplayer } from './hooks/useMultiplayer';
+import { useScanQueue } from './hooks/useScanQueue';
+import { evaluateGame } from './utils/gameEndUtils';
+import { getRoundSettings, snapshotRuleset } from './utils/rulesetUtils';
 
 const App: React.FC = () => {
   const [isMultiplayerOpen, setIsMultiplayerOpen] = useState(false);
@@ -22,34 +26,45 @@ const App: React.FC = () => {
   // 2. Game State
   const {
       players, setPlayers,
+      teams, setTeams,
       settings, setSettings,
+      updateSettings,
       view, setView,
       scanPlayerId, setScanPlayerId,
       scanRoundId, setScanRoundId,
       updatePlayerRound,
       removePlayer,
       addPlayers,
-      resetRounds,
+      finishGame,
       clearSession
   } = useGameState(isClientState);
 
+  // Photos waiting to be read stay on this device until their round is confirmed
+  const scanQueue = useScanQueue(settings);
+  const [pendingScanId, setPendingScanId] = useState<string | null>(null);
+  // Live scanning: auto-capture, then straight on to the next player's hand
+  const [isLiveScan, setIsLiveScan] = useState(false);
+
   // 3. Message Handler
   // Defined here so it can access the state setters from useGameState
   const handleP2PMessage = (msg: P2PMessage) => {
       if (msg.type === 'SYNC_STATE') {
           setIsClientState(true); 
           setPlayers(msg.payload.players);
-          setSettings(msg.payload.settings);
+          setTeams(msg.payload.teams || []); // Hosts on older versions don't send teams
+          setSettings(migrateSettings(msg.payload.settings));
           if (msg.payload.view === AppView.GAME || msg.payload.view === AppView.SETUP) {
               setView(msg.payload.view);
           }
+          // The host went back to setup: that game, and any photo queued for it, is over
+          if (msg.payload.view === AppView.SETUP) scanQueue.clearScans().catch(e => console.error("Failed to clear pending scans", e));
       } else if (msg.type === 'REQUEST_SAVE_ROUND') {
-          handleSaveRoundLogic(msg.payload.playerId, msg.payload.round, true); // force local update
+          handleSaveRoundLogic(msg.payload.playerId, msg.payload.round, msg.payload.roundIndex); // force local update
       } else if (msg.type === 'REQUEST_RESET') {
-          resetRounds();
+          endGame();
           setView(AppView.SETUP);
       } else if (msg.type === 'REQUEST_SETTINGS_UPDATE') {
-          setSettings(msg.payload);
+          updateSettings(migrateSettings(msg.payload));
       } else if (msg.type === 'REQUEST_ADD_PLAYERS') {
           addPlayers(msg.payload);
       } else if (msg.type === 'REQUEST_REMOVE_PLAYER') {
@@ -60,7 +75,7 @@ const App: React.FC = () => {
           localStorage.removeItem('snapscore_host_id');
           multiplayer.setRetryCount(0);
           
-          clearSession();
+          endSession();
           setView(AppView.SETUP);
       }
   };
@@ -68,6 +83,7 @@ const App: React.FC = () => {
   // 4. Multiplayer Hook
   const multiplayer = useMultiplayer({
       players,
+      teams,
       settings,
       view,
       onMessage: handleP2PMessage
@@ -116,21 +132,36 @@ const App: React.FC = () => {
   };
 
   // Split logic: Routing vs Execution
-  const handleSaveRound = (playerId: string, round: Round) => {
+  const handleSaveRound = (playerId: string, round: Round, roundIndex?: number) => {
     if (isClientState) {
         multiplayer.sendToHostAction({
             type: 'REQUEST_SAVE_ROUND',
-            payload: { playerId, round }
+            payload: { playerId, round, roundIndex }
         });
         return;
     }
-    handleSaveRoundLogic(playerId, round);
+    handleSaveRoundLogic(playerId, round, roundIndex);
   };
 
-  const handleSaveRoundLogic = (playerId: string, round: Round, isRemoteRequest = false) => {
+  const handleSaveRoundLogic = (playerId: string, round: Round, roundIndex?: number) => {
       // If we are client and receiving this, we update (synced). 
       // If we are host, we update.
-      updatePlayerRound(playerId, round);
+      // Once the game is over (or the player is out) only existing rounds can be corrected.
+      const isNewRound = !players.find(p => p.id === playerId)?.rounds.some(r => r.id === round.id);
+      const status = evaluateGame(players, settings, teams);
+      if (isNewRound && (status.isOver || status.eliminatedIds.includes(playerId))) return;
+      updatePlayerRound(playerId, round, roundIndex);
+  };
+
+  // Pending scans go with the game: finishing or clearing it drops them too
+  const endGame = () => {
+      finishGame();
+      scanQueue.clearScans().catch(e => console.error("Failed to clear pending scans", e));
+  };
+
+  const endSession = () => {
+      clearSession();
+      scanQueue.clearScans().catch(e => console.error("Failed to clear pending scans", e));
   };
 
   const handleRestartGame = () => {
@@ -138,49 +169,134 @@ const App: React.FC = () => {
         multiplayer.sendToHostAction({ type: 'REQUEST_RESET', payload: null });
         return;
     }
-    resetRounds();
+    endGame();
     setView(AppView.SETUP);
   };
 
   const handleClearSession = async () => {
     if (isClientState) return;
     multiplayer.handleHostEndSession();
-    clearSession();
+    endSession();
     setIsClientState(false);
     setView(AppView.SETUP);
   };
 
-  const handleUpdateSettings = (newSettings: CardSettings) => {
+  const handleUpdateSettings = (newSettings: CardSettings, rescoreAll = false) => {
       if (isClientState) {
           multiplayer.sendToHostAction({ type: 'REQUEST_SETTINGS_UPDATE', payload: newSettings });
           return;
       }
-      setSettings(newSettings);
+      updateSettings(newSettings, rescoreAll);
       setView(players.length > 0 ? AppView.GAME : AppView.SETUP);
   };
 
+  const handleUpdateTeams = (newTeams: Team[]) => {
+      if (isClientState) return;
+      setTeams(newTeams);
+  };
+
+  const handleApplyPreset = (newSettings: CardSettings) => {
+      if (isClientState) return;
+      updateSettings(newSettings);
+  };
+
   const handleRequestScan = (playerId: string, roundId?: string) => {
     setScanPlayerId(playerId);
     setScanRoundId(roundId || null);
     setView(AppView.SCAN);
   };
 
+  // Next player round the table still missing a hand for this round, skipping anyone who is out
+  const getNextScanPlayer = (playerId: string) => {
+    const index = players.findIndex(p => p.id === playerId);
+    if (index < 0) return undefined;
+    const roundNumber = players[index].rounds.length + 1;
+    const { eliminatedIds } = evaluateGame(players, settings, teams);
+    return [...players.slice(index + 1), ...players.slice(0, index)]
+      .find(p => p.rounds.length < roundNumber && !eliminatedIds.includes(p.id));
+  };
+
   const handleScanComplete = (round: Round) => {
     if (scanPlayerId) {
-      handleSaveRound(scanPlayerId, round);
+      const nextPlayer = isLiveScan && canScanLive ? getNextScanPlayer(scanPlayerId) : undefined;
+      // A queued photo goes back into the round it was taken for, under that round's rules
+      if (pendingScan && !scanRoundId) handleSaveRound(scanPlayerId, { ...round, ruleset: pendingScan.ruleset }, pendingScan.roundNumber - 1);
+      else handleSaveRound(scanPlayerId, round);
+      // A confirmed queued photo has become a real round
+      if (pendingScanId) scanQueue.discardScan(pendingScanId);
+      if (nextPlayer) {
+        setScanPlayerId(nextPlayer.id);
+        return;
+      }
       setScanPlayerId(null);
       setScanRoundId(null);
+      setPendingScanId(null);
       setView(AppView.GAME);
     }
   };
 
+  const handleOpenPendingScan = (scan: PendingScan) => {
+    setScanPlayerId(scan.playerId);
+    setScanRoundId(scan.roundId || null);
+    setPendingScanId(scan.id);
+    setView(scan.playerId === null ? AppView.TABLE_SCAN : AppView.SCAN);
+  };
+
+  // Only leaves the scan once the photo is safely stored; failures are shown by ScanView
+  const handleAnalyzeLater = async (image: string) => {
+    if (scanPlayerId) await scanQueue.enqueueScan(scanPlayerId, image, scanRoundNumber, snapshotRuleset(scanSettings), scanRoundId || undefined);
+    handleCancelScan();
+  };
+
+  const handleDiscardPendingScan = () => {
+    if (pendingScanId) scanQueue.discardScan(pendingScanId);
+    handleCancelScan();
+  };
+
+  const handleRequestTableScan = () => {
+    setView(AppView.TABLE_SCAN);
+  };
+
+  // One photo of the table becomes a new round for every hand that was found;
+  // a queued one goes back into the round it was taken for, under that round's rules
+  const handleTableScanComplete = (rounds: { playerId: string; round: Round }[]) => {
+    rounds.forEach(({ playerId, round }) => pendingScan
+      ? handleSaveRound(playerId, { ...round, ruleset: pendingScan.ruleset }, pendingScan.roundNumber - 1)
+      : handleSaveRound(playerId, round));
+    if (pendingScanId) scanQueue.discardScan(pendingScanId);
+    handleCancelScan();
+  };
+
+  const handleTableAnalyzeLater = async (image: string, roundNumber: number) => {
+    await scanQueue.enqueueScan(null, image, roundNumber, snapshotRuleset(settings));
+    handleCancelScan();
+  };
+
   const handleCancelScan = () => {
     setScanPlayerId(null);
     setScanRoundId(null);
+    setPendingScanId(null);
     setView(AppView.GAME);
   }
 
   // --- Rendering ---
+
+  // Only new rounds chain on; rescans and queued photos go back to the table
+  const canScanLive = !scanRoundId && !pendingScanId;
+  // Rescans and queued photos are scored with the rules of the round they belong to
+  const scanPlayer = players.find(p => p.id === scanPlayerId);
+  const rescanRound = scanPlayer?.rounds.find(r => r.id === scanRoundId);
+  const pendingScan = scanQueue.pendingScans.find(s => s.id === pendingScanId);
+  // The round being scanned: a queued photo's own, the rescanned one, or the player's next
+  const scanRoundNumber = pendingScan
+    ? pendingScan.roundNumber
+    : rescanRound && scanPlayer ? scanPlayer.rounds.indexOf(rescanRound) + 1 : (scanPlayer?.rounds.length ?? 0) + 1;
+  const scanSettings = pendingScan
+    ? { ...settings, ...pendingScan.ruleset }
+    : rescanRound ? getRoundSettings(rescanRound, settings) : settings;
+  // Table scans only hand rounds to players who are still in
+  const eliminatedIds = view === AppView.TABLE_SCAN ? evaluateGame(players, settings, teams).eliminatedIds : [];
+  const tableScanPlayers = players.filter(p => !eliminatedIds.includes(p.id));
   
   const showLoading = multiplayer.isJoining;
 
@@ -241,6 +357,10 @@ const App: React.FC = () => {
           onOpenMultiplayer={() => setIsMultiplayerOpen(true)}
           isClient={isClientState}
           players={players}
+          teams={teams}
+          onUpdateTeams={handleUpdateTeams}
+          settings={settings}
+          onApplyPreset={handleApplyPreset}
           onClearSession={handleClearSession}
           onRemovePlayer={handleRemovePlayer}
         />
@@ -249,6 +369,7 @@ const App: React.FC = () => {
       {view === AppView.SETTINGS && (
         <SettingsView 
           settings={settings} 
+          hasRounds={players.some(p => p.rounds.length > 0)}
           onSave={handleUpdateSettings}
           onCancel={() => setView(players.length > 0 ? AppView.GAME : AppView.SETUP)}
           isClient={isClientState}
@@ -259,10 +380,14 @@ const App: React.FC = () => {
       {view === AppView.GAME && (
         <GameView 
           players={players}
+          teams={teams}
           settings={settings}
           onSaveRound={handleSaveRound}
           onUpdatePlayers={handleUpdatePlayers}
           onRequestScan={handleRequestScan}
+          onRequestTableScan={handleRequestTableScan}
+          pendingScans={scanQueue.pendingScans}
+          onOpenPendingScan={handleOpenPendingScan}
           onOpenSettings={() => setView(AppView.SETTINGS)}
           onNewGame={handleRestartGame}
           onLeave={multiplayer.handleLeaveGame}
@@ -274,11 +399,32 @@ const App: React.FC = () => {
 
       {view === AppView.SCAN && scanPlayerId && (
         <ScanView 
+          key={scanPlayerId}
           player={players.find(p => p.id === scanPlayerId)!}
+          players={players}
           existingRoundId={scanRoundId || undefined}
-          settings={settings}
+          pendingScan={pendingScan}
+          settings={scanSettings}
           onComplete={handleScanComplete}
           onCancel={handleCancelScan}
+          onAnalyzeLater={handleAnalyzeLater}
+          onDiscardPending={handleDiscardPendingScan}
+          isLive={canScanLive && isLiveScan}
+          onLiveChange={canScanLive ? setIsLiveScan : undefined}
+          nextPlayerName={canScanLive && isLiveScan ? getNextScanPlayer(scanPlayerId)?.name : undefined}
+        />
+      )}
+
+      {view === AppView.TABLE_SCAN && (
+        <TableScanView
+          key={pendingScanId || 'table'}
+          players={tableScanPlayers}
+          settings={scanSettings}
+          pendingScan={pendingScan}
+          onComplete={handleTableScanComplete}
+          onCancel={handleCancelScan}
+          onAnalyzeLater={handleTableAnalyzeLater}
+          onDiscardPending={handleDiscardPendingScan}
         />
       )}
     </div>
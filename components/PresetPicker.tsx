@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { CardSettings } from '../types';
+import { Button } from './Button';
+import { IconCheck } from './Icons';
+import { GAME_PRESETS, getPreset, describePresetChanges, applyPreset } from '../utils/gamePresets';
+
+interface PresetPickerProps {
+  settings: CardSettings;
+  onApply: (settings: CardSettings) => void;
+  disabled?: boolean;
+}
+
+export const PresetPicker: React.FC<PresetPickerProps> = ({ settings, onApply, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const activePreset = getPreset(settings.presetId);
+  const selectedPreset = getPreset(selectedId || undefined);
+  const changes = selectedPreset ? describePresetChanges(settings, selectedPreset) : [];
+
+  const handleApply = () => {
+    if (selectedPreset) {
+      onApply(applyPreset(selectedPreset));
+      setSelectedId(null);
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xs text-slate-500 uppercase font-bold">Game Rules</h3>
+          <p className="text-white font-medium">{activePreset ? activePreset.name : 'Custom Rules'}</p>
+        </div>
+        {!disabled && (
+          <button
+            type="button"
+            onClick={() => { setIsOpen(!isOpen); setSelectedId(null); }}
+            className="text-xs font-bold text-emerald-400 hover:text-white px-2 py-1 bg-emerald-500/10 rounded border border-emerald-500/20 hover:bg-emerald-500/20"
+          >
+            {isOpen ? 'Close' : 'Choose Game'}
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-2">
+          {GAME_PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => setSelectedId(preset.id)}
+              className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                selectedId === preset.id
+                  ? 'bg-emerald-500/10 border-emerald-500/40'
+                  : 'bg-slate-900/50 border-transparent hover:border-slate-600'
+              }`}
+            >
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-bold text-white">{preset.name}</span>
+                {preset.id === settings.presetId && <IconCheck className="w-4 h-4 text-emerald-400" />}
+              </div>
+              <p className="text-xs text-slate-400 mt-0.5">{preset.description}</p>
+            </button>
+          ))}
+
+          {selectedPreset && (
+            <div className="mt-3 p-3 rounded-lg bg-slate-900/70 border border-slate-700">
+              <h4 className="text-xs text-slate-500 uppercase font-bold mb-2">Changes</h4>
+              {changes.length === 0 ? (
+                <p className="text-xs text-slate-400 italic">Matches your current rules.</p>
+              ) : (
+                <ul className="space-y-1 mb-1">
+                  {changes.map(change => (
+                    <li key={change.label} className="flex justify-between text-xs">
+                      <span className="text-slate-400">{change.label}</span>
+                      <span className="font-mono">
+                        <span className="text-slate-500 line-through mr-2">{change.from}</span>
+                        <span className="text-emerald-400">{change.to}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Button type="button" fullWidth onClick={handleApply} className="mt-3">
+                Use {selectedPreset.name} Rules
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Player, Team } from '../types';
+import { IconPlus, IconTrash } from './Icons';
+import { getPlayerTeam } from '../utils/teamUtils';
+import { v4 as uuidv4 } from 'uuid';
+
+interface TeamsEditorProps {
+  players: Player[];
+  teams: Team[];
+  onChange: (teams: Team[]) => void;
+  disabled?: boolean;
+}
+
+const selectClassName = "bg-slate-700 text-white rounded px-2 py-1 text-sm font-bold border border-slate-600 focus:border-emerald-500 outline-none disabled:opacity-60";
+
+export const TeamsEditor: React.FC<TeamsEditorProps> = ({ players, teams, onChange, disabled }) => {
+  const addTeam = () => {
+    onChange([...teams, { id: uuidv4(), name: `Team ${teams.length + 1}`, playerIds: [] }]);
+  };
+
+  const renameTeam = (id: string, name: string) => {
+    onChange(teams.map(t => t.id === id ? { ...t, name } : t));
+  };
+
+  // A player is on at most one team
+  const assignPlayer = (playerId: string, teamId: string) => {
+    onChange(teams.map(t => {
+      const playerIds = t.playerIds.filter(id => id !== playerId);
+      return { ...t, playerIds: t.id === teamId ? [...playerIds, playerId] : playerIds };
+    }));
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xs text-slate-500 uppercase font-bold">Teams</h3>
+          <p className="text-white font-medium">{teams.length === 0 ? 'Everyone for themselves' : `${teams.length} Teams`}</p>
+        </div>
+        {!disabled && (
+          <button
+            type="button"
+            onClick={addTeam}
+            className="flex items-center gap-1 text-xs font-bold text-emerald-400 hover:text-white px-2 py-1 bg-emerald-500/10 rounded border border-emerald-500/20 hover:bg-emerald-500/20"
+          >
+            <IconPlus className="w-3 h-3" /> Add Team
+          </button>
+        )}
+      </div>
+
+      {teams.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {teams.map(team => (
+            <div key={team.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={team.name}
+                onChange={(e) => renameTeam(team.id, e.target.value)}
+                disabled={disabled}
+                className="flex-1 bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 disabled:opacity-60"
+              />
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => onChange(teams.filter(t => t.id !== team.id))}
+                  className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+                  title="Remove Team"
+                >
+                  <IconTrash className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+
+          {players.length > 0 && (
+            <ul className="pt-3 mt-3 border-t border-slate-700/50 space-y-2">
+              {players.map(p => (
+                <li key={p.id} className="flex items-center justify-between gap-2">
+                  <span className="text-slate-300 text-sm truncate">{p.name}</span>
+                  <select
+                    value={getPlayerTeam(p.id, teams)?.id || ''}
+                    onChange={(e) => assignPlayer(p.id, e.target.value)}
+                    disabled={disabled}
+                    className={`${selectClassName} w-36`}
+                  >
+                    <option value="">No Team</option>
+                    {teams.map(t => <option key={t.id} value={t.id}>{t.name || 'Unnamed Team'}</option>)}
+                  </select>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { BidScoring } from '../../types';
+import { Button } from '../Button';
+import { IconX } from '../Icons';
+import { calculateBidScore, isBidMade } from '../../utils/bidUtils';
+
+interface BidEntryModalProps {
+  playerName?: string;
+  initialBid?: number;
+  initialTricks?: number;
+  isEdit?: boolean;
+  scoring: BidScoring;
+  onClose: () => void;
+  onSave: (bid: number, tricks: number) => void;
+}
+
+const Stepper: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({ label, value, onChange }) => (
+  <div className="flex flex-col items-center gap-2">
+    <span className="text-slate-400 text-sm font-medium uppercase tracking-wider">{label}</span>
+    <div className="flex items-center gap-3">
+      <button
+        type="button"
+        onClick={() => onChange(Math.max(0, value - 1))}
+        className="w-12 h-12 rounded-full bg-slate-800 border border-slate-700 text-2xl font-bold text-slate-300 hover:bg-slate-700"
+      >
+        −
+      </button>
+      <span className="w-16 text-center text-5xl font-black text-white">{value}</span>
+      <button
+        type="button"
+        onClick={() => onChange(value + 1)}
+        className="w-12 h-12 rounded-full bg-slate-800 border border-slate-700 text-2xl font-bold text-slate-300 hover:bg-slate-700"
+      >
+        +
+      </button>
+    </div>
+  </div>
+);
+
+export const BidEntryModal: React.FC<BidEntryModalProps> = ({
+  playerName,
+  initialBid = 0,
+  initialTricks = 0,
+  isEdit = false,
+  scoring,
+  onClose,
+  onSave
+}) => {
+  const [bid, setBid] = useState(initialBid);
+  const [tricks, setTricks] = useState(initialTricks);
+
+  const preview = { type: 'bid' as const, id: '', bid, tricks, timestamp: 0 };
+  const points = calculateBidScore(preview, scoring);
+  const made = isBidMade(preview, scoring);
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-felt-900 flex flex-col w-full md:max-w-md md:mx-auto md:border-x md:border-slate-800"
+    >
+      {/* Header */}
+      <div className="p-4 border-b border-slate-800 flex justify-between items-center bg-slate-900/50 shrink-0">
+        <h3 className="text-lg font-bold text-white">{isEdit ? 'Edit Bid' : 'Bid & Tricks'}</h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white p-2 -mr-2 rounded-full">
+          <IconX className="w-6 h-6" />
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 flex flex-col justify-center p-6 overflow-y-auto space-y-8">
+        <div className="text-center space-y-2">
+          <p className="text-slate-400 text-sm">Enter the round for</p>
+          <p className="text-2xl font-bold text-emerald-400">{playerName}</p>
+        </div>
+
+        <Stepper label={bid === 0 && scoring.nilPoints !== 0 ? 'Bid (Nil)' : 'Bid'} value={bid} onChange={setBid} />
+        <Stepper label="Tricks Won" value={tricks} onChange={setTricks} />
+
+        <div className="text-center">
+          <p className={`text-sm font-bold uppercase tracking-wider ${made ? 'text-emerald-400' : 'text-red-400'}`}>
+            {made ? 'Bid Made' : 'Bid Missed'}
+          </p>
+          <p className="text-4xl font-black text-white mt-1">{points > 0 ? `+${points}` : points}</p>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="p-4 border-t border-slate-800 bg-slate-900/30 shrink-0 grid grid-cols-2 gap-4">
+        <Button type="button" variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={() => onSave(bid, tricks)} className="bg-emerald-500 text-white">
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
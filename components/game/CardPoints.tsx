@@ -0,0 +1,28 @@
+import React from 'react';
+import { CardScore, describeCardRule } from '../../utils/scoringUtils';
+
+interface CardPointsProps {
+  score: CardScore;
+  isMelded?: boolean; // Part of a meld, so it doesn't count
+  className?: string;
+}
+
+// A card's value plus the special rules (if any) that produced it
+export const CardPoints: React.FC<CardPointsProps> = ({ score, isMelded = false, className = 'text-sm' }) => (
+  <div className="flex flex-col items-end leading-tight">
+    <span className={`font-mono ${isMelded ? 'text-slate-500 line-through' : 'text-emerald-400'} ${className}`}>
+      {score.points >= 0 ? '+' : ''}{score.points}
+    </span>
+    {isMelded && (
+      <span className="text-[10px] text-slate-400 font-medium">Melded</span>
+    )}
+    {score.isWild && (
+      <span className="text-[10px] text-gold-400 font-medium">Wild</span>
+    )}
+    {score.rules.length > 0 && (
+      <span className="text-[10px] text-gold-400 font-medium">
+        {score.rules.map(describeCardRule).join(' · ')}
+      </span>
+    )}
+  </div>
+);
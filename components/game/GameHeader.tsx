@@ -8,7 +8,9 @@ interface GameHeaderProps {
   isClient: boolean;
   isConnected: boolean;
   playersCount: number;
-  maxRounds: number;
+  currentRound: number;
+  isGameOver: boolean;
+  wildRank: string | null;
   onLeave: () => void;
   onNewGame: () => void;
   onOpenSettings: () => void;
@@ -22,7 +24,9 @@ export const GameHeader: React.FC<GameHeaderProps> = ({
   isClient,
   isConnected,
   playersCount,
-  maxRounds,
+  currentRound,
+  isGameOver,
+  wildRank,
   onOpenSettings,
   setShowLeaveConfirm,
   setShowNewGameConfirm
@@ -46,8 +50,13 @@ export const GameHeader: React.FC<GameHeaderProps> = ({
                 </div>
               )}
             </h1>
-            <p className="text-xs text-slate-400">
-              Round {Math.max(1, maxRounds) + (playersCount > 0 && maxRounds > 0 ? 0 : 1)}
+            <p className="text-xs text-slate-400 flex items-center gap-2">
+              {isGameOver ? 'Game Over' : `Round ${currentRound}`}
+              {wildRank && !isGameOver && (
+                <span className="text-[10px] font-bold uppercase tracking-wider text-gold-400 bg-gold-500/10 border border-gold-500/20 px-1.5 py-0.5 rounded">
+                  {wildRank}s Wild
+                </span>
+              )}
             </p>
           </>
         )}
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Button } from '../Button';
+import { IconStar } from '../Icons';
+
+interface GameOverBannerProps {
+  winnerNames: string[];
+  reason: string;
+  isClient: boolean;
+  onNewGame: () => void;
+}
+
+export const GameOverBanner: React.FC<GameOverBannerProps> = ({ winnerNames, reason, isClient, onNewGame }) => {
+  return (
+    <div className="bg-gold-500/10 border border-gold-500/30 rounded-xl p-4 text-center shadow-lg">
+      <IconStar className="w-8 h-8 text-gold-400 mx-auto mb-2 animate-pulse-slow" />
+      <h2 className="text-xl font-black text-white">
+        {winnerNames.length > 1 ? `${winnerNames.join(' & ')} tie!` : `${winnerNames[0]} wins!`}
+      </h2>
+      <p className="text-xs text-slate-400 mt-1">Game over. {reason}</p>
+      {isClient ? (
+        <p className="text-xs text-slate-500 mt-3 animate-pulse">Waiting for the host to start a new game...</p>
+      ) : (
+        <Button fullWidth onClick={onNewGame} className="mt-4">
+          New Game
+        </Button>
+      )}
+    </div>
+  );
+};
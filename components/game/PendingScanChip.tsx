@@ -0,0 +1,43 @@
+import React from 'react';
+import { PendingScan } from '../../types';
+
+interface PendingScanChipProps {
+  scan: PendingScan;
+  label?: string; // Prefix naming the photo when it isn't on a player's card
+  onOpen?: (scan: PendingScan) => void;
+}
+
+const PENDING_LABELS: Record<PendingScan['status'], string> = {
+  pending: 'Pending analysis',
+  analyzing: 'Analyzing…',
+  ready: 'Review scan',
+  failed: 'Scan failed'
+};
+
+const PENDING_TITLES: Record<PendingScan['status'], string> = {
+  pending: 'Read automatically once the recognizer is reachable. Tap to read it now.',
+  analyzing: 'Being read in the background',
+  ready: 'Read and waiting for you to confirm the cards',
+  failed: 'Could not be read. Tap to try again or enter the cards by hand.'
+};
+
+const PENDING_STYLES: Record<PendingScan['status'], string> = {
+  pending: 'border-slate-600 text-slate-400 hover:text-slate-200',
+  analyzing: 'border-sky-500/40 text-sky-300 animate-pulse',
+  ready: 'border-emerald-500/60 text-emerald-300 hover:bg-emerald-500/10',
+  failed: 'border-red-500/50 text-red-300 hover:bg-red-500/10'
+};
+
+// A queued photo; it doesn't count until the player confirms what was read
+export const PendingScanChip: React.FC<PendingScanChipProps> = ({ scan, label, onOpen }) => (
+  <button
+    onClick={(e) => {
+      e.stopPropagation();
+      onOpen?.(scan);
+    }}
+    title={PENDING_TITLES[scan.status]}
+    className={`px-2 py-1 rounded border border-dashed transition-colors cursor-pointer shrink-0 ${PENDING_STYLES[scan.status]}`}
+  >
+    {label ? `${label} · ` : ''}{PENDING_LABELS[scan.status]}
+  </button>
+);
@@ -1,8 +1,9 @@
 
 import React, { useRef } from 'react';
-import { Player, CardSettings, Round } from '../../types';
-import { IconCamera, IconPlus, IconStar, IconTrash } from '../Icons';
-import { calculatePlayerTotal, calculateRoundScore } from '../../utils/scoringUtils';
+import { Player, CardSettings, Round, PendingScan } from '../../types';
+import { IconCamera, IconCheck, IconPlus, IconStar, IconTrash } from '../Icons';
+import { calculateRunningTotals, describeTotalRule } from '../../utils/scoringUtils';
+import { PendingScanChip } from './PendingScanChip';
 
 interface PlayerCardProps {
   player: Player;
@@ -11,11 +12,17 @@ interface PlayerCardProps {
   settings: CardSettings;
   isEditMode: boolean;
   isWinner: boolean;
+  isLocked?: boolean;     // No new rounds: the game is over or the player is out
+  isEliminated?: boolean;
+  scoresForTeam?: boolean; // A partner: the team total carries the bags and total rules, and bids are scored as a team
   onMove?: (index: number, direction: 'up' | 'down') => void;
   onNameChange?: (index: number, name: string) => void;
   onDelete?: (id: string) => void;
   onRequestScan: (playerId: string) => void;
+  pendingScans?: PendingScan[]; // This player's photos still waiting to be read or confirmed
+  onOpenPendingScan?: (scan: PendingScan) => void;
   onManualEntry: (playerId: string) => void;
+  onBidEntry: (playerId: string) => void;
   onRoundClick: (round: Round, playerName: string, playerId: string, index: number) => void;
   onLongPress?: () => void;
 }
@@ -27,14 +34,26 @@ export const PlayerCard: React.FC<PlayerCardProps> = ({
   settings,
   isEditMode,
   isWinner,
+  isLocked = false,
+  isEliminated = false,
+  scoresForTeam = false,
   onMove,
   onNameChange,
   onDelete,
   onRequestScan,
+  pendingScans = [],
+  onOpenPendingScan,
   onManualEntry,
+  onBidEntry,
   onRoundClick,
   onLongPress
 }) => {
+  const steps = calculateRunningTotals(player, settings);
+  // A partner's card only shows what they brought in; bid rounds count for nothing until the team's are added up
+  const total = scoresForTeam
+    ? steps.reduce((sum, step) => sum + step.points, 0)
+    : steps.length > 0 ? steps[steps.length - 1].total : 0;
+  const showsTotal = !(scoresForTeam && settings.bidScoring.enabled);
   const pressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const handlePressStart = () => {
@@ -107,49 +126,81 @@ export const PlayerCard: React.FC<PlayerCardProps> = ({
         <h3 className="text-lg font-bold text-white truncate max-w-[180px] flex items-center gap-2">
           {player.name}
           {isWinner && <IconStar className="w-5 h-5 text-gold-400 drop-shadow-md animate-pulse-slow" />}
+          {isEliminated && (
+            <span className="text-[10px] font-bold uppercase tracking-wider text-red-400 bg-red-500/10 border border-red-500/20 px-1.5 py-0.5 rounded">Out</span>
+          )}
         </h3>
-        <span className={`text-3xl font-black ${isWinner ? 'text-gold-400' : 'text-emerald-400'}`}>
-          {calculatePlayerTotal(player, settings)}
-        </span>
+        {showsTotal && (
+          <span className={`font-black ${scoresForTeam ? 'text-xl text-slate-400' : `text-3xl ${isWinner ? 'text-gold-400' : 'text-emerald-400'}`}`}>
+            {scoresForTeam && total > 0 ? '+' : ''}{total}
+          </span>
+        )}
       </div>
       
       {/* History Snippet */}
       <div className="flex gap-2 overflow-x-auto pb-2 mb-1 text-xs text-slate-400 scrollbar-hide">
-         {player.rounds.length === 0 && <span className="italic opacity-50">No rounds played</span>}
-         {player.rounds.map((round, i) => (
-             <button 
-                key={round.id || i} 
-                onClick={(e) => {
-                    e.stopPropagation();
-                    onRoundClick(round, player.name, player.id, i + 1);
-                }}
-                className="bg-slate-900/50 hover:bg-slate-900 hover:text-emerald-400 px-2 py-1 rounded border border-transparent hover:border-emerald-500/30 transition-colors cursor-pointer shrink-0"
-             >
-               {calculateRoundScore(round, settings)}
-             </button>
-         ))}
+         {player.rounds.length === 0 && pendingScans.length === 0 && <span className="italic opacity-50">No rounds played</span>}
+         {steps.map((step, i) => {
+             const round = player.rounds[i];
+             const adjusted = !scoresForTeam && (step.firedRules.length > 0 || step.bagPenalty > 0);
+             const notes = [
+               ...(step.bagPenalty > 0 ? [`Bag penalty -${step.bagPenalty}`] : []),
+               ...step.firedRules.map(describeTotalRule)
+             ];
+             return (
+               <button 
+                  key={round.id || i} 
+                  onClick={(e) => {
+                      e.stopPropagation();
+                      onRoundClick(round, player.name, player.id, i + 1);
+                  }}
+                  title={adjusted ? `${notes.join(', ')} (total now ${step.total})` : undefined}
+                  className={`bg-slate-900/50 hover:bg-slate-900 hover:text-emerald-400 px-2 py-1 rounded border transition-colors cursor-pointer shrink-0 ${
+                    adjusted ? 'border-gold-500/40' : 'border-transparent hover:border-emerald-500/30'
+                  }`}
+               >
+                 {scoresForTeam && round.type === 'bid' ? `${round.bid}/${round.tricks}` : step.points}
+                 {/* Bags or a total rule moved the total: show where it landed */}
+                 {adjusted && <span className="ml-1 text-gold-400 font-bold">↺{step.total}</span>}
+               </button>
+             );
+         })}
+         {/* Queued photos don't count until the player confirms what was read */}
+         {pendingScans.map(scan => <PendingScanChip key={scan.id} scan={scan} onOpen={onOpenPendingScan} />)}
       </div>
 
       {/* Actions */}
-      <div className="grid grid-cols-2 gap-2 mt-1 relative z-10">
-          <button 
-              onClick={(e) => { e.stopPropagation(); onRequestScan(player.id); }}
-              className="flex items-center justify-center gap-2 py-2 rounded-lg border transition-colors font-medium text-sm bg-emerald-600/10 text-emerald-400 hover:bg-emerald-600/20 border-emerald-600/20"
-          >
-              <IconCamera className="w-4 h-4" />
-              Scan Hand
-          </button>
-          <button 
-               onClick={(e) => {
-                  e.stopPropagation();
-                  onManualEntry(player.id);
-               }}
-              className="flex items-center justify-center gap-2 bg-slate-700 text-slate-300 hover:bg-slate-600 py-2 rounded-lg transition-colors font-medium text-sm"
-          >
-              <IconPlus className="w-4 h-4" />
-              Manual
-          </button>
-      </div>
+      {!isLocked && (
+        <div className="grid grid-cols-2 gap-2 mt-1 relative z-10">
+            {settings.bidScoring.enabled ? (
+                <button 
+                    onClick={(e) => { e.stopPropagation(); onBidEntry(player.id); }}
+                    className="flex items-center justify-center gap-2 py-2 rounded-lg border transition-colors font-medium text-sm bg-emerald-600/10 text-emerald-400 hover:bg-emerald-600/20 border-emerald-600/20"
+                >
+                    <IconCheck className="w-4 h-4" />
+                    Bid & Tricks
+                </button>
+            ) : (
+                <button 
+                    onClick={(e) => { e.stopPropagation(); onRequestScan(player.id); }}
+                    className="flex items-center justify-center gap-2 py-2 rounded-lg border transition-colors font-medium text-sm bg-emerald-600/10 text-emerald-400 hover:bg-emerald-600/20 border-emerald-600/20"
+                >
+                    <IconCamera className="w-4 h-4" />
+                    Scan Hand
+                </button>
+            )}
+            <button 
+                 onClick={(e) => {
+                    e.stopPropagation();
+                    onManualEntry(player.id);
+                 }}
+                className="flex items-center justify-center gap-2 bg-slate-700 text-slate-300 hover:bg-slate-600 py-2 rounded-lg transition-colors font-medium text-sm"
+            >
+                <IconPlus className="w-4 h-4" />
+                Manual
+            </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,24 +1,30 @@
 
 import React, { useState } from 'react';
-import { Round, DetectedCard, CardSettings } from '../../types';
+import { Round, DetectedCard, CardSettings, CardReading, CardRank, CardSuit, Player } from '../../types';
 import { Button } from '../Button';
 import { IconX, IconPlus, IconCheck, IconTrash, IconPencil, IconCamera } from '../Icons';
-import { calculateRoundScore, calculateCardScore } from '../../utils/scoringUtils';
+import { calculateRoundScore, scoreCard, getRoundMelds } from '../../utils/scoringUtils';
+import { isBidMade } from '../../utils/bidUtils';
+import { getRoundSettings } from '../../utils/rulesetUtils';
+import { CardPoints } from './CardPoints';
+import { getGameDeck, getDeckRanks, getDeckSuits } from '../../utils/deckDefinitions';
+import { findOverCounts, findRoundOverCounts, getOtherHands } from '../../utils/deckValidation';
+import { DeckWarnings } from '../scan/DeckWarnings';
+import { RoundPhoto } from './RoundPhoto';
 import { v4 as uuidv4 } from 'uuid';
 
-const RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A', 'Joker'];
-const SUITS = ['Spades', 'Hearts', 'Diamonds', 'Clubs', 'Stars', 'None'];
-
 interface RoundDetailsModalProps {
   round: Round;
   playerName: string | null;
   playerId: string | null;
   roundIndex: number | null;
+  players: Player[]; // Everyone in the game, to check the round as a whole
   settings: CardSettings;
   onChange: (updatedRound: Round) => void;
   onSave: () => void;
   onClose: () => void;
   onEditScoreManual: () => void;
+  onEditBid: () => void;
   onRequestScan: () => void;
 }
 
@@ -27,44 +33,68 @@ export const RoundDetailsModal: React.FC<RoundDetailsModalProps> = ({
   playerName,
   playerId,
   roundIndex,
+  players,
   settings,
   onChange,
   onSave,
   onClose,
   onEditScoreManual,
+  onEditBid,
   onRequestScan
 }) => {
   const [editingCardId, setEditingCardId] = useState<string | null>(null);
 
-  const updateCard = (cardId: string, field: 'rank' | 'suit', value: string) => {
+  const updateCard = (cardId: string, change: Partial<CardReading>) => {
     if (round.type === 'scan') {
-      const updatedCards = round.cards.map(c => c.id === cardId ? { ...c, [field]: value } : c);
-      onChange({ ...round, cards: updatedCards });
+      const updatedCards = round.cards.map(c => c.id === cardId ? { ...c, ...change } : c);
+      onChange({ ...round, cards: updatedCards, melds: undefined });
     }
   };
 
   const deleteCard = (cardId: string) => {
     if (round.type === 'scan') {
       const updatedCards = round.cards.filter(c => c.id !== cardId);
-      onChange({ ...round, cards: updatedCards });
+      onChange({ ...round, cards: updatedCards, melds: undefined });
     }
   };
 
   const addCard = () => {
     if (round.type === 'scan') {
       const newCard: DetectedCard = { id: uuidv4(), rank: 'A', suit: 'Spades' };
-      onChange({ ...round, cards: [...round.cards, newCard] });
+      onChange({ ...round, cards: [...round.cards, newCard], melds: undefined });
       setEditingCardId(newCard.id);
     }
   };
 
+  // Older rounds without a snapshot are scored with the current rules
+  const roundSettings = getRoundSettings(round, settings);
+  const rulesetVersion = roundSettings.rulesetVersion;
+  const deck = getGameDeck(settings);
+  const handIssues = round.type === 'scan' ? findOverCounts(round.cards, deck) : [];
+  const roundIssues = round.type === 'scan' && playerId && roundIndex
+    ? findRoundOverCounts(round.cards, getOtherHands(players, playerId, roundIndex), deck)
+    : [];
+
+  // Card edits drop the saved melds, so the analyzer proposes a fresh split
+  const meldedCardIds = new Set(
+    round.type === 'scan' && roundSettings.handScoring === 'deadwood'
+      ? getRoundMelds(round, settings, roundIndex ?? undefined).melds.flatMap(m => m.cardIds)
+      : []
+  );
+
   return (
     <div className="fixed inset-0 z-[60] bg-felt-900 flex flex-col w-full md:max-w-md md:mx-auto md:border-x md:border-slate-800">
       {/* Header */}
       <div className="p-4 border-b border-slate-800 flex justify-between items-center bg-slate-900/50 shrink-0">
         <div>
           <h3 className="text-lg font-bold text-white">Round {roundIndex}</h3>
-          <p className="text-xs text-slate-400">{playerName}</p>
+          <p className="text-xs text-slate-400">
+            {playerName}
+            <span className="text-slate-500"> · Rules v{rulesetVersion}</span>
+            {rulesetVersion !== settings.rulesetVersion && (
+              <span className="text-gold-400"> (now v{settings.rulesetVersion})</span>
+            )}
+          </p>
         </div>
         <button onClick={onClose} className="text-slate-400 hover:text-white p-2 -mr-2 rounded-full">
           <IconX className="w-6 h-6" />
@@ -82,8 +112,27 @@ export const RoundDetailsModal: React.FC<RoundDetailsModalProps> = ({
             <p className="text-6xl font-bold text-emerald-400">{round.score}</p>
             <p className="text-sm text-slate-500 mt-2">Points added manually</p>
           </div>
+        ) : round.type === 'bid' ? (
+          <div className="flex flex-col items-center justify-center h-full text-center py-12">
+            <div className="grid grid-cols-2 gap-8 mb-6">
+              <div>
+                <p className="text-slate-400 text-sm uppercase tracking-wider">Bid</p>
+                <p className="text-5xl font-black text-white">{round.bid}</p>
+              </div>
+              <div>
+                <p className="text-slate-400 text-sm uppercase tracking-wider">Tricks</p>
+                <p className="text-5xl font-black text-white">{round.tricks}</p>
+              </div>
+            </div>
+            <p className={`text-sm font-bold uppercase tracking-wider ${isBidMade(round, roundSettings.bidScoring) ? 'text-emerald-400' : 'text-red-400'}`}>
+              {isBidMade(round, roundSettings.bidScoring) ? 'Bid Made' : 'Bid Missed'}
+            </p>
+            <p className="text-6xl font-bold text-emerald-400 mt-2">{calculateRoundScore(round, settings, roundIndex ?? undefined)}</p>
+          </div>
         ) : (
           <div>
+            {round.photoId && <RoundPhoto photoId={round.photoId} />}
+            <DeckWarnings handIssues={handIssues} roundIssues={roundIssues} />
             <ul className="space-y-2">
               {round.cards.map((card) => (
                 <li key={card.id} className="flex justify-between items-center bg-slate-800/50 p-2 rounded-lg border border-slate-700/50 min-h-[48px]">
@@ -91,18 +140,18 @@ export const RoundDetailsModal: React.FC<RoundDetailsModalProps> = ({
                     <div className="flex items-center gap-2 flex-1">
                       <select 
                         value={card.rank} 
-                        onChange={(e) => updateCard(card.id, 'rank', e.target.value)}
+                        onChange={(e) => updateCard(card.id, { rank: e.target.value as CardRank })}
                         className="bg-slate-700 text-white rounded px-2 py-1 text-sm font-bold border border-slate-600 focus:border-emerald-500 outline-none w-16 text-center"
                       >
-                        {RANKS.map(r => <option key={r} value={r}>{r}</option>)}
+                        {getDeckRanks(deck).map(r => <option key={r} value={r}>{r}</option>)}
                       </select>
                       <span className="text-slate-500 text-xs">of</span>
                       <select 
                         value={card.suit} 
-                        onChange={(e) => updateCard(card.id, 'suit', e.target.value)}
+                        onChange={(e) => updateCard(card.id, { suit: e.target.value as CardSuit })}
                         className="bg-slate-700 text-white rounded px-2 py-1 text-sm font-bold border border-slate-600 focus:border-emerald-500 outline-none flex-1"
                       >
-                        {SUITS.map(s => <option key={s} value={s}>{s}</option>)}
+                        {getDeckSuits(deck).map(s => <option key={s} value={s}>{s}</option>)}
                       </select>
                       <button 
                         onClick={() => setEditingCardId(null)}
@@ -126,7 +175,7 @@ export const RoundDetailsModal: React.FC<RoundDetailsModalProps> = ({
                         )}
                       </div>
                       <div className="flex items-center gap-3">
-                        <span className="text-base font-mono font-bold text-emerald-400">+{calculateCardScore(card, settings)}</span>
+                        <CardPoints score={scoreCard(card, roundSettings, roundIndex ?? undefined)} isMelded={meldedCardIds.has(card.id)} className="text-base font-bold" />
                         <div className="flex gap-1">
                           <button onClick={() => setEditingCardId(card.id)} className="p-1 text-slate-500 hover:text-white">
                             <IconPencil className="w-4 h-4" />
@@ -155,7 +204,7 @@ export const RoundDetailsModal: React.FC<RoundDetailsModalProps> = ({
         {round.type === 'scan' && (
           <div className="flex justify-between items-center px-2">
             <span className="text-slate-400 font-semibold uppercase text-sm">Round Total</span>
-            <span className="text-2xl font-bold text-white">{calculateRoundScore(round, settings)}</span>
+            <span className="text-2xl font-bold text-white">{calculateRoundScore(round, settings, roundIndex ?? undefined)}</span>
           </div>
         )}
         {round.type === 'manual' ? (
@@ -166,6 +215,14 @@ export const RoundDetailsModal: React.FC<RoundDetailsModalProps> = ({
           >
             Edit Score
           </Button>
+        ) : round.type === 'bid' ? (
+          <Button 
+            fullWidth
+            variant="secondary" 
+            onClick={onEditBid}
+          >
+            Edit Bid
+          </Button>
         ) : (
           <div className="grid grid-cols-2 gap-3">
             <Button 
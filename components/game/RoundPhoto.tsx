@@ -0,0 +1,40 @@
+import React, { useState, useEffect } from 'react';
+import { getScanPhoto } from '../../services/scanPhotos';
+
+interface RoundPhotoProps {
+  photoId: string;
+}
+
+// The photo a round was scored from, for settling "that wasn't a King" arguments
+export const RoundPhoto: React.FC<RoundPhotoProps> = ({ photoId }) => {
+  const [image, setImage] = useState<string | null | undefined>(undefined); // undefined = still loading, null = not here
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    getScanPhoto(photoId)
+      .then(photo => active && setImage(photo?.image ?? null))
+      .catch(() => active && setImage(null));
+    return () => { active = false; };
+  }, [photoId]);
+
+  if (image === undefined) return null;
+
+  if (image === null) {
+    return (
+      <p className="mb-3 text-xs text-slate-500 italic">
+        The photo of this hand isn't on this device: it was taken on another one, or has been cleared.
+      </p>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => setIsExpanded(!isExpanded)}
+      className="mb-3 block w-full rounded-xl overflow-hidden border border-slate-700 bg-black"
+    >
+      <img src={image} alt="Scanned hand" className={`w-full object-contain ${isExpanded ? 'max-h-[70dvh]' : 'max-h-40'}`} />
+    </button>
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { IconStar } from '../Icons';
+
+interface TeamHeaderProps {
+  name: string;
+  total: number;
+  isWinner: boolean;
+  isEliminated?: boolean;
+  isWaiting?: boolean; // Some members have entered a round the others haven't yet
+}
+
+export const TeamHeader: React.FC<TeamHeaderProps> = ({ name, total, isWinner, isEliminated = false, isWaiting = false }) => {
+  return (
+    <div className="flex justify-between items-end px-1 pt-2">
+      <div>
+        <h2 className="text-xs font-bold uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          {name || 'Unnamed Team'}
+          {isWinner && <IconStar className="w-4 h-4 text-gold-400" />}
+          {isEliminated && (
+            <span className="text-[10px] font-bold text-red-400 bg-red-500/10 border border-red-500/20 px-1.5 py-0.5 rounded">Out</span>
+          )}
+        </h2>
+        {isWaiting && <p className="text-[10px] text-slate-500 italic">Waiting for partners to finish the round</p>}
+      </div>
+      <span className={`text-2xl font-black ${isWinner ? 'text-gold-400' : 'text-white'}`}>{total}</span>
+    </div>
+  );
+};
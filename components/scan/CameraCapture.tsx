@@ -0,0 +1,355 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Button } from '../Button';
+import { IconCamera, IconPhoto, IconX, IconBolt, IconArrowPath } from '../Icons';
+import { preparePhoto } from '../../services/photoPipeline';
+import { loadRecognizerSettings } from '../../services/recognitionService';
+import { toGray } from '../../services/localVision';
+import { INITIAL_AUTO_CAPTURE, SAMPLE_WIDTH, SAMPLE_INTERVAL_MS, nextAutoCapture } from '../../services/autoCapture';
+import {
+  CameraControls, NO_CAMERA_CONTROLS, RESOLUTIONS, loadCameraSettings, saveCameraSettings, getVideoConstraints,
+  getCameraControls, setTorch, setZoom, focusAt, clampZoom, toFramePoint
+} from '../../services/cameraControls';
+import { CameraSettings } from '../../types';
+
+// Picked photos are often of the whole table, so they're worth cropping before they're read
+export type CaptureSource = 'camera' | 'library';
+
+interface CameraCaptureProps {
+  title: string;
+  onCapture: (dataUrl: string, source: CaptureSource) => void;
+  onCancel: () => void;
+  autoCapture?: boolean; // Take the photo by itself once the hand is held still and in focus
+  onAutoCaptureChange?: (enabled: boolean) => void; // Shows the Auto toggle when given
+}
+
+// Full screen viewfinder with a shutter and a photo picker; falls back to the picker alone without a camera
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ title, onCapture, onCancel, autoCapture = false, onAutoCaptureChange }) => {
+  const [isCameraMode, setIsCameraMode] = useState(true);
+  const [cameraError, setCameraError] = useState(false);
+  const [isMirrored, setIsMirrored] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [stillProgress, setStillProgress] = useState(0);
+  const [cameraSettings, setCameraSettings] = useState(loadCameraSettings);
+  const [controls, setControls] = useState<CameraControls>(NO_CAMERA_CONTROLS);
+  const [hasOtherCamera, setHasOtherCamera] = useState(false);
+  const [isTorchOn, setIsTorchOn] = useState(false);
+  const [zoom, setZoomLevel] = useState(1);
+  const [focusPoint, setFocusPoint] = useState<{ x: number; y: number } | null>(null); // Where the focus ring is drawn
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Touches on the viewfinder: two fingers pinch to zoom, a short single tap focuses
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+  const tapRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Initialize Camera
+  useEffect(() => {
+    if (!isCameraMode) {
+      stopCamera();
+      return;
+    }
+    let mounted = true;
+    const startCamera = async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: getVideoConstraints(cameraSettings),
+          audio: false
+        });
+        if (!mounted) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+        streamRef.current = stream;
+        const track = stream.getVideoTracks()[0];
+        const settings = track.getSettings();
+        setIsMirrored(settings.facingMode !== 'environment');
+        const trackControls = getCameraControls(track);
+        setControls(trackControls);
+        setIsTorchOn(false);
+        setZoomLevel(trackControls.zoom ? (settings as { zoom?: number }).zoom ?? trackControls.zoom.min : 1);
+        // Labels and counts are only reliable once the camera permission is granted
+        navigator.mediaDevices.enumerateDevices()
+          .then(devices => mounted && setHasOtherCamera(devices.filter(d => d.kind === 'videoinput').length > 1))
+          .catch(() => setHasOtherCamera(false));
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          try { await videoRef.current.play(); } catch (e) { console.warn(e); }
+        }
+        setCameraError(false);
+      } catch (err) {
+        if (!mounted) return;
+        setCameraError(true);
+        setIsCameraMode(false);
+      }
+    };
+    startCamera();
+    return () => {
+      mounted = false;
+      stopCamera();
+    };
+  }, [isCameraMode, cameraSettings.facingMode, cameraSettings.resolution]);
+
+  // Live mode: watch a small copy of the feed and press the shutter once it settles
+  useEffect(() => {
+    if (!autoCapture || !isCameraMode || cameraError || isPreparing) return;
+    let state = INITIAL_AUTO_CAPTURE;
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || !video.videoWidth) return;
+      if (!sampleCanvasRef.current) sampleCanvasRef.current = document.createElement('canvas');
+      const canvas = sampleCanvasRef.current;
+      canvas.width = SAMPLE_WIDTH;
+      canvas.height = Math.round(video.videoHeight * SAMPLE_WIDTH / video.videoWidth);
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const gray = toGray(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+      const next = nextAutoCapture(state, { gray, width: canvas.width, height: canvas.height });
+      state = next.state;
+      setStillProgress(next.progress);
+      if (next.ready) {
+        window.clearInterval(timer);
+        handleCapture();
+      }
+    }, SAMPLE_INTERVAL_MS);
+    return () => {
+      window.clearInterval(timer);
+      setStillProgress(0);
+    };
+  }, [autoCapture, isCameraMode, cameraError, isPreparing]);
+
+  const updateCameraSettings = (changes: Partial<CameraSettings>) => {
+    const next = { ...cameraSettings, ...changes };
+    setCameraSettings(next);
+    saveCameraSettings(next);
+  };
+
+  const getTrack = () => streamRef.current?.getVideoTracks()[0];
+
+  const handleToggleTorch = () => {
+    const track = getTrack();
+    if (!track) return;
+    setTorch(track, !isTorchOn)
+      .then(() => setIsTorchOn(!isTorchOn))
+      .catch(e => console.warn('Torch not available', e));
+  };
+
+  const handleCycleResolution = () => {
+    const index = RESOLUTIONS.findIndex(r => r.id === cameraSettings.resolution);
+    updateCameraSettings({ resolution: RESOLUTIONS[(index + 1) % RESOLUTIONS.length].id });
+  };
+
+  const handleSwitchCamera = () => {
+    updateCameraSettings({ facingMode: cameraSettings.facingMode === 'environment' ? 'user' : 'environment' });
+  };
+
+  const pointerPosition = (e: React.PointerEvent<HTMLVideoElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const pinchDistance = () => {
+    const [a, b]: { x: number; y: number }[] = Array.from(pointersRef.current.values());
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLVideoElement>) => {
+    const position = pointerPosition(e);
+    pointersRef.current.set(e.pointerId, position);
+    if (pointersRef.current.size === 1) {
+      tapRef.current = position;
+    } else {
+      tapRef.current = null;
+      if (pointersRef.current.size === 2 && controls.zoom) pinchRef.current = { distance: pinchDistance(), zoom };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLVideoElement>) => {
+    if (!pointersRef.current.has(e.pointerId)) return;
+    pointersRef.current.set(e.pointerId, pointerPosition(e));
+    const track = getTrack();
+    if (!pinchRef.current || !controls.zoom || !track || pointersRef.current.size !== 2) return;
+    const nextZoom = clampZoom(pinchRef.current.zoom * pinchDistance() / Math.max(1, pinchRef.current.distance), controls.zoom);
+    if (nextZoom === zoom) return;
+    setZoomLevel(nextZoom);
+    setZoom(track, nextZoom).catch(e => console.warn('Zoom not available', e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLVideoElement>) => {
+    const position = pointerPosition(e);
+    const tap = tapRef.current;
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) pinchRef.current = null;
+    tapRef.current = null;
+    // A finger that barely moved is a tap, not a drag
+    if (tap && Math.hypot(position.x - tap.x, position.y - tap.y) < 10) handleFocus(e.currentTarget, position);
+  };
+
+  const handleFocus = (video: HTMLVideoElement, position: { x: number; y: number }) => {
+    const track = getTrack();
+    if (!controls.tapToFocus || !track || !video.videoWidth) return;
+    const rect = video.getBoundingClientRect();
+    const point = toFramePoint(position, rect, { width: video.videoWidth, height: video.videoHeight }, isMirrored);
+    setFocusPoint(position);
+    focusAt(track, point).catch(e => console.warn('Tap to focus not available', e));
+  };
+
+  // The focus ring fades after a moment
+  useEffect(() => {
+    if (!focusPoint) return;
+    const timer = window.setTimeout(() => setFocusPoint(null), 1000);
+    return () => window.clearTimeout(timer);
+  }, [focusPoint]);
+
+  const stopCamera = () => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+  };
+
+  // Camera frames and picked files go through the same preparation (orientation, size, contrast)
+  const handlePhoto = async (photo: Blob, source: CaptureSource) => {
+    setIsPreparing(true);
+    setFileError(null);
+    try {
+      const { maxImageSide, enhancePhotos } = loadRecognizerSettings();
+      const prepared = await preparePhoto(photo, { maxSide: maxImageSide, enhance: enhancePhotos });
+      onCapture(prepared.dataUrl, source);
+    } catch (err) {
+      console.error("Could not prepare photo", err);
+      setFileError("That file couldn't be opened as a photo. Try a JPEG or PNG.");
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleCapture = () => {
+    if (isPreparing) return;
+    if (videoRef.current && canvasRef.current) {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.drawImage(video, 0, 0);
+        // Near-lossless here; the pipeline decides the final size and quality
+        canvas.toBlob(blob => blob && handlePhoto(blob, 'camera'), 'image/jpeg', 0.95);
+      }
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) handlePhoto(file, 'library');
+    e.target.value = ''; // Picking the same file again should still fire
+  };
+
+  return (
+    <div className="flex-1 flex flex-col w-full h-full bg-black relative overflow-hidden">
+      <canvas ref={canvasRef} className="hidden" />
+      <input type="file" accept="image/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+      {isCameraMode && !cameraError ? (
+        <>
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            onLoadedMetadata={() => videoRef.current?.play()}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className={`absolute inset-0 w-full h-full object-cover touch-none transition-transform duration-300 ${isMirrored ? 'scale-x-[-1]' : ''}`}
+          />
+          {focusPoint && (
+            <div
+              className="absolute w-16 h-16 -ml-8 -mt-8 border-2 border-gold-400 rounded-lg pointer-events-none z-10 animate-pulse"
+              style={{ left: focusPoint.x, top: focusPoint.y }}
+            />
+          )}
+          <div className="absolute inset-0 flex flex-col justify-between p-6 z-10 bg-gradient-to-b from-black/50 via-transparent to-black/50 pointer-events-none">
+             <div className="space-y-3">
+             <div className="flex justify-between items-center pointer-events-auto">
+               <button onClick={onCancel} className="p-2 rounded-full bg-black/20 text-white backdrop-blur-md hover:bg-black/40 transition-colors">
+                 <IconX className="w-6 h-6" />
+               </button>
+               <span className="text-white font-semibold text-sm shadow-sm drop-shadow-md">{title}</span>
+               {onAutoCaptureChange ? (
+                 <button
+                   onClick={() => onAutoCaptureChange(!autoCapture)}
+                   className={`px-3 py-1.5 rounded-full text-xs font-bold backdrop-blur-md transition-colors ${
+                     autoCapture ? 'bg-emerald-600 text-white' : 'bg-black/20 text-white/80 hover:bg-black/40'
+                   }`}
+                 >
+                   Auto
+                 </button>
+               ) : (
+                 <div className="w-10"></div>
+               )}
+             </div>
+             {/* Only what this camera supports; resolution always applies */}
+             <div className="flex justify-center items-center gap-2 pointer-events-auto">
+               {controls.torch && (
+                 <button
+                   onClick={handleToggleTorch}
+                   className={`p-2 rounded-full backdrop-blur-md transition-colors ${isTorchOn ? 'bg-gold-400 text-slate-900' : 'bg-black/20 text-white/80 hover:bg-black/40'}`}
+                 >
+                   <IconBolt className="w-5 h-5" />
+                 </button>
+               )}
+               <button onClick={handleCycleResolution} className="px-3 py-1.5 rounded-full text-xs font-bold bg-black/20 text-white/80 backdrop-blur-md hover:bg-black/40 transition-colors">
+                 {RESOLUTIONS.find(r => r.id === cameraSettings.resolution)?.label}
+               </button>
+               {controls.zoom && zoom > controls.zoom.min && (
+                 <span className="px-3 py-1.5 rounded-full text-xs font-bold bg-black/20 text-white backdrop-blur-md">{zoom.toFixed(1)}×</span>
+               )}
+             </div>
+             </div>
+             {autoCapture && !isPreparing && (
+               <div className="self-center flex flex-col items-center gap-2">
+                 <p className="text-sm font-medium text-white drop-shadow-md">
+                   {stillProgress < 1 ? 'Hold the cards still…' : 'Focusing…'}
+                 </p>
+                 <div className="w-40 h-1 rounded-full bg-white/20 overflow-hidden">
+                   <div className="h-full bg-emerald-400 transition-all" style={{ width: `${stillProgress * 100}%` }} />
+                 </div>
+               </div>
+             )}
+             {fileError && <p className="text-center text-sm font-medium text-red-300 drop-shadow-md">{fileError}</p>}
+             <div className="flex items-center justify-between pointer-events-auto pb-8">
+                <button onClick={() => fileInputRef.current?.click()} className="p-4 rounded-full text-white/80 hover:text-white transition-colors hover:bg-white/10">
+                  <IconPhoto className="w-8 h-8" />
+                </button>
+                <button onClick={handleCapture} disabled={isPreparing} className="w-20 h-20 rounded-full border-4 border-white flex items-center justify-center bg-white/20 active:bg-white/50 transition-all hover:scale-105 disabled:opacity-50">
+                  <div className="w-16 h-16 rounded-full bg-white"></div>
+                </button>
+                {hasOtherCamera ? (
+                  <button onClick={handleSwitchCamera} className="p-4 rounded-full text-white/80 hover:text-white transition-colors hover:bg-white/10">
+                    <IconArrowPath className="w-8 h-8" />
+                  </button>
+                ) : (
+                  <div className="w-16"></div>
+                )}
+             </div>
+          </div>
+        </>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center p-6 bg-felt-900">
+          <div className="w-24 h-24 bg-slate-800 rounded-full flex items-center justify-center mb-6"><IconCamera className="w-10 h-10 text-slate-500" /></div>
+          <h3 className="text-xl font-bold text-white mb-2">Camera Unavailable</h3>
+          {fileError && <p className="text-sm text-red-400 mb-4 text-center">{fileError}</p>}
+          <Button fullWidth onClick={() => fileInputRef.current?.click()} className="mb-4">Select Photo</Button>
+          <Button variant="secondary" fullWidth onClick={onCancel}>Cancel</Button>
+        </div>
+      )}
+    </div>
+  );
+};
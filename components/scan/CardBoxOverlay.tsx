@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { BoundingBox } from '../../types';
+
+export interface CardBox {
+  cardId: string;
+  box: BoundingBox;
+  label: string;
+  isUncertain?: boolean;
+  color?: string; // Overrides the default white, e.g. to tell hands apart
+}
+
+interface CardBoxOverlayProps {
+  image: string;
+  boxes: CardBox[];
+  activeCardId: string | null;
+  onSelect: (cardId: string) => void;
+}
+
+// The photo with a tappable box per recognized card. The SVG shares the image's
+// aspect ratio and "contain" fit, so boxes line up however the photo is letterboxed.
+export const CardBoxOverlay: React.FC<CardBoxOverlayProps> = ({ image, boxes, activeCardId, onSelect }) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  return (
+    <>
+      <img
+        src={image}
+        alt="Cards"
+        onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        className="w-full h-full object-contain opacity-80"
+      />
+      {size && boxes.length > 0 && (
+        <svg
+          viewBox={`0 0 ${size.width} ${size.height}`}
+          preserveAspectRatio="xMidYMid meet"
+          className="absolute inset-0 w-full h-full"
+        >
+          {boxes.map(({ cardId, box, label, isUncertain, color: baseColor }) => {
+            const isActive = cardId === activeCardId;
+            const color = isActive ? '#34d399' : isUncertain ? '#fbbf24' : baseColor || '#ffffff';
+            const x = box.x * size.width;
+            const y = box.y * size.height;
+            // Keep strokes and labels readable regardless of the photo's resolution
+            const unit = Math.max(size.width, size.height) / 300;
+            return (
+              <g key={cardId} onClick={() => onSelect(cardId)} className="cursor-pointer">
+                <rect
+                  x={x}
+                  y={y}
+                  width={box.width * size.width}
+                  height={box.height * size.height}
+                  fill={isActive ? 'rgba(52, 211, 153, 0.2)' : 'rgba(0, 0, 0, 0.01)'}
+                  stroke={color}
+                  strokeWidth={isActive ? unit : unit / 2}
+                  rx={unit}
+                />
+                <text x={x + unit} y={y + unit * 6} fill={color} fontSize={unit * 6} fontWeight="bold">
+                  {label}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { OverCount, describeOverCount } from '../../utils/deckValidation';
+
+interface DeckWarningsProps {
+  handIssues: OverCount[];  // Wrong within this hand alone
+  roundIssues: OverCount[]; // Only wrong together with the other players' hands
+}
+
+// Cards the deck can't account for; usually a misread, so they're flagged rather than blocked
+export const DeckWarnings: React.FC<DeckWarningsProps> = ({ handIssues, roundIssues }) => {
+  if (handIssues.length === 0 && roundIssues.length === 0) return null;
+
+  return (
+    <div className="mb-3 shrink-0 p-3 rounded-xl bg-amber-500/10 border border-amber-500/30 space-y-1">
+      <p className="text-xs font-bold uppercase tracking-wider text-amber-400">Not possible with this deck</p>
+      {handIssues.map(issue => (
+        <p key={`${issue.card.rank}|${issue.card.suit}`} className="text-sm text-amber-200">{describeOverCount(issue)}</p>
+      ))}
+      {roundIssues.map(issue => (
+        <p key={`round-${issue.card.rank}|${issue.card.suit}`} className="text-sm text-amber-200">
+          {describeOverCount(issue)} (counting everyone's hands this round)
+        </p>
+      ))}
+    </div>
+  );
+};
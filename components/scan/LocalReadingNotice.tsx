@@ -0,0 +1,9 @@
+import React from 'react';
+
+// Shown whenever the on-device recognizer read the photo instead of a cloud model
+export const LocalReadingNotice: React.FC = () => (
+  <div className="mb-3 shrink-0 px-3 py-2 rounded-lg bg-sky-500/10 border border-sky-500/30 text-xs text-sky-300">
+    <span className="font-bold uppercase tracking-wider mr-1">On-device reading.</span>
+    Read without the cloud model, which is less accurate. Check each card before saving.
+  </div>
+);
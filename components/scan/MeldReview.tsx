@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { CardSettings, DetectedCard, Meld } from '../../types';
+import { IconX, IconPlus } from '../Icons';
+import { formatCard } from '../../utils/scoringUtils';
+import { moveIntoMeld } from '../../utils/meldUtils';
+
+interface MeldReviewProps {
+  cards: DetectedCard[];
+  melds: Meld[];
+  isAdjusted: boolean;
+  deadwoodPoints: number;
+  settings: CardSettings;
+  roundNumber: number;
+  onBreakMeld: (index: number) => void;
+  onChangeMelds: (melds: Meld[]) => void;
+  onReset: () => void;
+}
+
+// Cards being picked for a new meld (target null) or to extend an existing one
+interface MeldBuilder {
+  target: number | null;
+  selected: string[];
+}
+
+export const MeldReview: React.FC<MeldReviewProps> = ({
+  cards, melds, isAdjusted, deadwoodPoints, settings, roundNumber, onBreakMeld, onChangeMelds, onReset
+}) => {
+  const [builder, setBuilder] = useState<MeldBuilder | null>(null);
+
+  // Cards can come from deadwood or from another meld, which moves them
+  const pickable = builder ? cards.filter(c => builder.target === null || !melds[builder.target]?.cardIds.includes(c.id)) : [];
+  const meldTypeOf = (cardId: string) => melds.find(m => m.cardIds.includes(cardId))?.type;
+  // A card edit can re-detect the melds under an open builder; its target may be gone
+  const proposal = builder && builder.selected.length > 0 && (builder.target === null || melds[builder.target])
+    ? moveIntoMeld(cards, melds, builder.selected, builder.target, settings, roundNumber)
+    : null;
+
+  const toggleCard = (cardId: string) => {
+    if (!builder) return;
+    const selected = builder.selected.includes(cardId)
+      ? builder.selected.filter(id => id !== cardId)
+      : [...builder.selected, cardId];
+    setBuilder({ ...builder, selected });
+  };
+
+  const handleConfirm = () => {
+    if (!proposal) return;
+    onChangeMelds(proposal);
+    setBuilder(null);
+  };
+
+  return (
+    <div className="mb-3 bg-slate-800/50 rounded-xl p-3 border border-slate-700/50">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-xs text-slate-500 uppercase font-bold">
+          Melds <span className="text-slate-600 normal-case font-medium">· {deadwoodPoints} deadwood</span>
+        </h4>
+        {isAdjusted && (
+          <button onClick={onReset} className="text-xs text-emerald-400 hover:text-white">
+            Auto-detect
+          </button>
+        )}
+      </div>
+
+      {melds.length === 0 ? (
+        <p className="text-xs text-slate-500 italic">No sets or runs found. Every card counts.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {melds.map((meld, index) => (
+            <li key={index} className={`flex items-center gap-2 ${builder?.target === index ? 'ring-1 ring-emerald-500/50 rounded' : ''}`}>
+              <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500 w-8">{meld.type}</span>
+              <div className="flex flex-wrap gap-1 flex-1">
+                {meld.cardIds.map(id => cards.find(c => c.id === id)).filter((c): c is DetectedCard => !!c).map(card => (
+                  <span key={card.id} className="text-xs font-bold text-white bg-slate-900/70 border border-slate-700 rounded px-1.5 py-0.5">
+                    {formatCard(card)}
+                  </span>
+                ))}
+              </div>
+              <button
+                onClick={() => setBuilder({ target: index, selected: [] })}
+                className="p-1 text-slate-500 hover:text-emerald-400"
+                title="Add cards to this meld"
+              >
+                <IconPlus className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onBreakMeld(index)}
+                className="p-1 text-slate-500 hover:text-red-400"
+                title="Count these cards as deadwood"
+              >
+                <IconX className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {builder ? (
+        <div className="mt-3 pt-3 border-t border-slate-700/50 space-y-2">
+          <p className="text-xs text-slate-400">
+            {builder.target === null ? 'Pick the cards of the new meld.' : `Pick cards to add to this ${melds[builder.target]?.type}.`}
+            {' '}Cards already in a meld move over.
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {pickable.map(card => {
+              const isSelected = builder.selected.includes(card.id);
+              const currentMeld = meldTypeOf(card.id);
+              return (
+                <button
+                  key={card.id}
+                  type="button"
+                  onClick={() => toggleCard(card.id)}
+                  className={`text-xs font-bold rounded px-1.5 py-0.5 border transition-colors ${
+                    isSelected ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-900/70 border-slate-700 text-white'
+                  }`}
+                >
+                  {formatCard(card)}
+                  {currentMeld && <span className="ml-1 text-[10px] font-medium text-slate-500">{currentMeld}</span>}
+                </button>
+              );
+            })}
+          </div>
+          {builder.selected.length > 0 && !proposal && (
+            <p className="text-xs text-amber-400">That isn't a set or run.</p>
+          )}
+          <div className="flex justify-end gap-3">
+            <button onClick={() => setBuilder(null)} className="text-xs text-slate-400 hover:text-white">Cancel</button>
+            <button onClick={handleConfirm} disabled={!proposal} className="text-xs font-bold text-emerald-400 hover:text-white disabled:opacity-40">
+              {builder.target === null ? 'Add Meld' : 'Add Cards'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setBuilder({ target: null, selected: [] })}
+          className="mt-2 text-xs text-emerald-400 hover:text-white flex items-center gap-1"
+        >
+          <IconPlus className="w-3 h-3" /> Build a meld
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BoundingBox } from '../../types';
+import { Button } from '../Button';
+import { IconX, IconArrowPath } from '../Icons';
+import { applyPhotoEdits } from '../../services/photoPipeline';
+import {
+  PhotoEdits, DEFAULT_PHOTO_EDITS, MIN_EDIT_SIZE, boxFromPoints, rotateEditsClockwise, isUnedited
+} from '../../services/photoEdits';
+
+interface PhotoEditorProps {
+  image: string; // The original photo; edits always start from it
+  edits: PhotoEdits;
+  onApply: (edits: PhotoEdits) => void;
+  onCancel: () => void;
+}
+
+type EditMode = 'crop' | 'mask';
+
+const boxStyle = (box: BoundingBox) => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`
+});
+
+// Drag to crop to one hand, or to black out other hands and the discard pile, before the photo is read
+export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, edits: initialEdits, onApply, onCancel }) => {
+  const [edits, setEdits] = useState<PhotoEdits>(initialEdits);
+  const [mode, setMode] = useState<EditMode>('crop');
+  const [preview, setPreview] = useState<string | null>(null); // The original, turned but not yet cropped
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    applyPhotoEdits(image, { ...DEFAULT_PHOTO_EDITS, quarterTurns: edits.quarterTurns })
+      .then(rotated => active && setPreview(rotated))
+      .catch(() => active && setPreview(image));
+    return () => { active = false; };
+  }, [image, edits.quarterTurns]);
+
+  // Position within the photo as fractions of its size
+  const toFraction = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = toFraction(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStart.current) setDraft(boxFromPoints(dragStart.current, toFraction(e)));
+  };
+
+  const handlePointerUp = () => {
+    const box = draft;
+    dragStart.current = null;
+    setDraft(null);
+    if (!box || box.width < MIN_EDIT_SIZE || box.height < MIN_EDIT_SIZE) return;
+    if (mode === 'crop') setEdits({ ...edits, crop: box });
+    else setEdits({ ...edits, masks: [...edits.masks, box] });
+  };
+
+  const removeMask = (index: number) => setEdits({ ...edits, masks: edits.masks.filter((_, i) => i !== index) });
+
+  const crop = mode === 'crop' && draft ? draft : edits.crop;
+
+  return (
+    <div className="flex flex-col h-full bg-black">
+      <div className="flex justify-between items-center p-4 shrink-0">
+        <button onClick={onCancel} className="p-2 rounded-full bg-slate-800 text-white hover:bg-slate-700 transition-colors">
+          <IconX className="w-5 h-5" />
+        </button>
+        <span className="text-white font-semibold text-sm">Crop & Mask</span>
+        <button
+          onClick={() => setEdits(rotateEditsClockwise(edits))}
+          className="p-2 rounded-full bg-slate-800 text-white hover:bg-slate-700 transition-colors"
+        >
+          <IconArrowPath className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center p-4">
+        {preview && (
+          <div
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="relative max-w-full max-h-full overflow-hidden touch-none select-none"
+          >
+            <img src={preview} alt="Photo to crop" draggable={false} className="block max-w-full max-h-[65dvh]" />
+            {/* Everything outside the crop is dimmed */}
+            <div className="absolute border-2 border-emerald-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.6)] pointer-events-none" style={boxStyle(crop)} />
+            {edits.masks.map((mask, i) => (
+              <div key={i} className="absolute bg-black/90 border border-red-400" style={boxStyle(mask)}>
+                <button
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={() => removeMask(i)}
+                  className="absolute top-1 right-1 p-0.5 rounded-full bg-red-500 text-white"
+                >
+                  <IconX className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            {mode === 'mask' && draft && (
+              <div className="absolute bg-black/70 border border-dashed border-red-400 pointer-events-none" style={boxStyle(draft)} />
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 space-y-3 bg-felt-900 shrink-0">
+        <div className="flex gap-2 p-1 bg-slate-800 rounded-lg">
+          {([['crop', 'Crop'], ['mask', 'Mask Out']] as [EditMode, string][]).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setMode(value)}
+              className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${
+                mode === value ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 text-center">
+          {mode === 'crop' ? 'Drag around the cards to read.' : "Drag over anything that shouldn't be read, like the discard pile."}
+        </p>
+        <Button onClick={() => onApply(edits)} fullWidth>Read Cards</Button>
+        {!isUnedited(edits) && (
+          <Button variant="ghost" onClick={() => setEdits(DEFAULT_PHOTO_EDITS)} fullWidth>
+            Reset
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { CardReading, RecognizedCard } from '../../types';
+import { IconCheck } from '../Icons';
+import { formatCard } from '../../utils/scoringUtils';
+
+interface UncertainCardProps {
+  reading: RecognizedCard;
+  onPick: (alternative: CardReading) => void;
+  onConfirm: () => void;
+}
+
+// One-tap fixes for a card the recognizer wasn't sure about
+export const UncertainCard: React.FC<UncertainCardProps> = ({ reading, onPick, onConfirm }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+      <span className="text-[10px] font-bold uppercase tracking-wider text-amber-400">
+        Unsure{reading.confidence !== undefined && ` · ${Math.round(reading.confidence * 100)}%`}
+      </span>
+      {(reading.alternatives || []).map((alt, i) => (
+        <button
+          key={i}
+          onClick={() => onPick(alt)}
+          className="text-xs font-bold text-white bg-slate-700 hover:bg-slate-600 border border-slate-600 rounded px-2 py-0.5"
+        >
+          {formatCard(alt)}?
+        </button>
+      ))}
+      <button
+        onClick={onConfirm}
+        className="flex items-center gap-1 text-xs font-medium text-emerald-400 bg-emerald-500/10 hover:bg-emerald-500/20 border border-emerald-500/20 rounded px-2 py-0.5"
+      >
+        <IconCheck className="w-3 h-3" /> Correct
+      </button>
+    </div>
+  );
+};
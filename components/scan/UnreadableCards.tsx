@@ -0,0 +1,35 @@
+import React from 'react';
+import { UnreadableCard } from '../../types';
+import { IconPlus, IconX } from '../Icons';
+
+interface UnreadableCardsProps {
+  cards: UnreadableCard[];
+  onAdd?: (index: number) => void; // Enter the card by hand instead
+  onDismiss: (index: number) => void;
+}
+
+// Readings the recognizer returned that aren't a card we know; they don't count until entered by hand
+export const UnreadableCards: React.FC<UnreadableCardsProps> = ({ cards, onAdd, onDismiss }) => {
+  if (cards.length === 0) return null;
+
+  return (
+    <div className="mb-3 shrink-0 p-3 rounded-xl bg-red-500/10 border border-red-500/30 space-y-2">
+      <p className="text-xs font-bold uppercase tracking-wider text-red-400">
+        {cards.length === 1 ? '1 card' : `${cards.length} cards`} couldn't be read and {cards.length === 1 ? "isn't" : "aren't"} counted
+      </p>
+      {cards.map((card, i) => (
+        <div key={i} className="flex items-center gap-2 text-sm">
+          <span className="flex-1 font-mono text-slate-300 truncate">"{card.text || '?'}"</span>
+          {onAdd && (
+            <button onClick={() => onAdd(i)} className="flex items-center gap-1 px-2 py-1 rounded bg-slate-700 text-slate-200 hover:bg-slate-600 text-xs font-bold">
+              <IconPlus className="w-3 h-3" /> Enter
+            </button>
+          )}
+          <button onClick={() => onDismiss(i)} className="p-1 text-slate-500 hover:text-white">
+            <IconX className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
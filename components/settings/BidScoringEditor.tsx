@@ -0,0 +1,63 @@
+import React from 'react';
+import { BidScoring } from '../../types';
+import { PointsInput } from './PointsInput';
+
+interface BidScoringEditorProps {
+  scoring: BidScoring;
+  onChange: (scoring: BidScoring) => void;
+}
+
+type NumberField = Exclude<keyof BidScoring, 'enabled' | 'exactOnly'>;
+
+const NUMBER_FIELDS: [NumberField, string][] = [
+  ['pointsPerBidTrick', 'Per Bid Trick'],
+  ['pointsPerOvertrick', 'Per Overtrick'],
+  ['exactBonus', 'Exact Bonus'],
+  ['missPerBidTrick', 'Miss / Bid Trick'],
+  ['missPerTrickOff', 'Miss / Trick Off'],
+  ['nilPoints', 'Nil Bid'],
+  ['bagLimit', 'Bags Limit'],
+  ['bagPenalty', 'Bags Penalty']
+];
+
+export const BidScoringEditor: React.FC<BidScoringEditorProps> = ({ scoring, onChange }) => {
+  const toggleClassName = (active: boolean) => `flex-1 py-2 rounded-md text-sm font-medium transition-all ${
+    active ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'
+  }`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 p-1 bg-slate-800 rounded-lg">
+        <button type="button" onClick={() => onChange({ ...scoring, enabled: false })} className={toggleClassName(!scoring.enabled)}>
+          Count Cards
+        </button>
+        <button type="button" onClick={() => onChange({ ...scoring, enabled: true })} className={toggleClassName(scoring.enabled)}>
+          Bid & Tricks
+        </button>
+      </div>
+
+      {scoring.enabled && (
+        <>
+          <div className="flex gap-2 p-1 bg-slate-800 rounded-lg">
+            <button type="button" onClick={() => onChange({ ...scoring, exactOnly: false })} className={toggleClassName(!scoring.exactOnly)}>
+              Bid or More
+            </button>
+            <button type="button" onClick={() => onChange({ ...scoring, exactOnly: true })} className={toggleClassName(scoring.exactOnly)}>
+              Exactly the Bid
+            </button>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {NUMBER_FIELDS.map(([field, label]) => (
+              <PointsInput
+                key={field}
+                label={label}
+                value={scoring[field]}
+                onChange={(value) => onChange({ ...scoring, [field]: value })}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { CardRule } from '../../types';
+import { Button } from '../Button';
+import { IconPlus, IconTrash } from '../Icons';
+import { PointsInput } from './PointsInput';
+import { RANKS, SUITS, describeCardRule } from '../../utils/scoringUtils';
+import { v4 as uuidv4 } from 'uuid';
+
+interface CardRulesEditorProps {
+  rules: CardRule[];
+  onChange: (rules: CardRule[]) => void;
+}
+
+// The suit select covers both exact suits and colors
+const getSuitOption = (rule: CardRule) => rule.suit || (rule.color ? `color:${rule.color}` : '');
+
+const selectClassName = "bg-slate-700 text-white rounded px-2 py-1 text-sm font-bold border border-slate-600 focus:border-emerald-500 outline-none";
+
+export const CardRulesEditor: React.FC<CardRulesEditorProps> = ({ rules, onChange }) => {
+  const updateRule = (id: string, changes: Partial<CardRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...changes } : r));
+  };
+
+  const handleSuitChange = (id: string, option: string) => {
+    if (option.startsWith('color:')) {
+      updateRule(id, { suit: undefined, color: option.slice('color:'.length) as CardRule['color'] });
+    } else {
+      updateRule(id, { suit: option || undefined, color: undefined });
+    }
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: uuidv4(), rank: 'Q', suit: 'Spades', mode: 'set', points: 13 }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.map(rule => (
+        <div key={rule.id} className="bg-slate-800 rounded-lg border border-slate-700 p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <select
+              value={rule.rank || ''}
+              onChange={(e) => updateRule(rule.id, { rank: e.target.value || undefined })}
+              className={`${selectClassName} w-20`}
+            >
+              <option value="">Any</option>
+              {RANKS.map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+            <span className="text-slate-500 text-xs">of</span>
+            <select
+              value={getSuitOption(rule)}
+              onChange={(e) => handleSuitChange(rule.id, e.target.value)}
+              className={`${selectClassName} flex-1`}
+            >
+              <option value="">Any Suit</option>
+              {SUITS.map(s => <option key={s} value={s}>{s}</option>)}
+              <option value="color:red">Red</option>
+              <option value="color:black">Black</option>
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+              className="p-1.5 rounded bg-slate-700 text-slate-400 hover:text-red-400 hover:bg-slate-600"
+            >
+              <IconTrash className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex gap-1 p-1 bg-slate-900/50 rounded-lg">
+              {(['set', 'add'] as const).map(mode => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => updateRule(rule.id, { mode })}
+                  className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${
+                    rule.mode === mode ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  {mode === 'set' ? 'Worth' : 'Bonus'}
+                </button>
+              ))}
+            </div>
+            <PointsInput value={rule.points} onChange={(points) => updateRule(rule.id, { points })} className="w-20 py-1" />
+            <span className="text-xs text-slate-400 flex-1 text-right truncate">{describeCardRule(rule)}</span>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="ghost" fullWidth onClick={addRule} className="border-2 border-dashed border-slate-700 hover:border-slate-600 py-2 text-sm">
+        <IconPlus className="w-4 h-4 mr-2" /> Add Rule
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { CardRank, CardSuit, DeckComposition } from '../../types';
+import { PointsInput } from './PointsInput';
+import { DECKS, getDeck } from '../../utils/deckDefinitions';
+
+interface DeckEditorProps {
+  deckId: string;
+  composition: DeckComposition;
+  onDeckChange: (deckId: string) => void;
+  onCompositionChange: (composition: DeckComposition) => void;
+}
+
+const chipClassName = (active: boolean) => `px-2 py-1 rounded-md text-xs font-bold border transition-colors ${
+  active ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-slate-500 line-through'
+}`;
+
+export const DeckEditor: React.FC<DeckEditorProps> = ({ deckId, composition, onDeckChange, onCompositionChange }) => {
+  const deck = getDeck(deckId);
+  const ranks = composition.ranks || deck.ranks;
+  const suits = composition.suits || deck.suits;
+  const deckJokers = deck.specialCards.find(c => c.rank === 'Joker');
+
+  // Back to "unset" once everything is included again, so the composition keeps following the deck
+  const toggleRank = (rank: CardRank) => {
+    const next = ranks.includes(rank) ? ranks.filter(r => r !== rank) : deck.ranks.filter(r => r === rank || ranks.includes(r));
+    onCompositionChange({ ...composition, ranks: next.length === deck.ranks.length ? undefined : next });
+  };
+
+  const toggleSuit = (suit: CardSuit) => {
+    const next = suits.includes(suit) ? suits.filter(s => s !== suit) : deck.suits.filter(s => s === suit || suits.includes(s));
+    onCompositionChange({ ...composition, suits: next.length === deck.suits.length ? undefined : next });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {DECKS.map(d => (
+          <button
+            key={d.id}
+            type="button"
+            onClick={() => onDeckChange(d.id)}
+            className={`py-2 px-3 rounded-lg text-sm font-medium border transition-all ${
+              deck.id === d.id
+                ? 'bg-emerald-600 border-emerald-500 text-white'
+                : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            {d.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <label className="text-xs text-slate-400">Decks shuffled together</label>
+        <PointsInput
+          value={composition.deckCount}
+          onChange={(deckCount) => onCompositionChange({ ...composition, deckCount: Math.max(1, deckCount) })}
+          className="w-16 py-1 ml-auto"
+        />
+      </div>
+
+      {deckJokers && (
+        <div className="flex items-center gap-3">
+          <label className="text-xs text-slate-400">Jokers per deck</label>
+          <PointsInput
+            value={composition.jokers ?? deckJokers.copies}
+            onChange={(jokers) => onCompositionChange({ ...composition, jokers: Math.max(0, jokers) })}
+            className="w-16 py-1 ml-auto"
+          />
+        </div>
+      )}
+
+      {deck.ranks.length > 1 && (
+        <div className="flex flex-wrap gap-1">
+          {deck.ranks.map(rank => (
+            <button key={rank} type="button" onClick={() => toggleRank(rank)} className={chipClassName(ranks.includes(rank))}>
+              {rank}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {deck.suits.length > 1 && (
+        <div className="flex flex-wrap gap-1">
+          {deck.suits.map(suit => (
+            <button key={suit} type="button" onClick={() => toggleSuit(suit)} className={chipClassName(suits.includes(suit))}>
+              {suit}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
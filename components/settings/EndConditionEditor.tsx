@@ -0,0 +1,75 @@
+import React from 'react';
+import { EndCondition } from '../../types';
+import { PointsInput } from './PointsInput';
+
+interface EndConditionEditorProps {
+  endCondition: EndCondition;
+  winningScoreType: 'lowest' | 'highest';
+  onChange: (endCondition: EndCondition) => void;
+}
+
+const OPTIONS: [EndCondition['type'], string][] = [
+  ['none', 'Never'],
+  ['targetScore', 'Score'],
+  ['roundLimit', 'Rounds'],
+  ['elimination', 'Bust']
+];
+
+const DEFAULTS: Record<EndCondition['type'], EndCondition> = {
+  none: { type: 'none' },
+  targetScore: { type: 'targetScore', target: 100 },
+  roundLimit: { type: 'roundLimit', rounds: 10 },
+  elimination: { type: 'elimination', threshold: 100 }
+};
+
+export const EndConditionEditor: React.FC<EndConditionEditorProps> = ({ endCondition, winningScoreType, onChange }) => {
+  const renderValue = () => {
+    switch (endCondition.type) {
+      case 'targetScore':
+        return (
+          <>
+            <PointsInput value={endCondition.target} onChange={(target) => onChange({ ...endCondition, target })} className="w-24 py-1" />
+            <span className="text-xs text-slate-500">The game ends once anyone reaches this total.</span>
+          </>
+        );
+      case 'roundLimit':
+        return (
+          <>
+            <PointsInput value={endCondition.rounds} onChange={(rounds) => onChange({ ...endCondition, rounds: Math.max(1, rounds) })} className="w-24 py-1" />
+            <span className="text-xs text-slate-500">The game ends after this many rounds.</span>
+          </>
+        );
+      case 'elimination':
+        return (
+          <>
+            <PointsInput value={endCondition.threshold} onChange={(threshold) => onChange({ ...endCondition, threshold })} className="w-24 py-1" />
+            <span className="text-xs text-slate-500">
+              Players {winningScoreType === 'highest' ? 'at or below' : 'at or above'} this total are out. Last one left wins.
+            </span>
+          </>
+        );
+      default:
+        return <span className="text-xs text-slate-500">Keep scoring until you start a new game.</span>;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 p-1 bg-slate-800 rounded-lg">
+        {OPTIONS.map(([type, label]) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => onChange(type === endCondition.type ? endCondition : DEFAULTS[type])}
+            className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${
+              endCondition.type === type ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-3">{renderValue()}</div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { PhotoRetention } from '../../types';
+import { Button } from '../Button';
+import { PhotoStorageUsage, getPhotoStorageUsage, deleteAllScanPhotos } from '../../services/scanPhotos';
+
+interface PhotoStorageEditorProps {
+  retention: PhotoRetention;
+  onChange: (retention: PhotoRetention) => void;
+}
+
+const AGE_OPTIONS: [number, string][] = [[7, '1 week'], [30, '1 month'], [90, '3 months'], [0, 'Forever']];
+const COUNT_OPTIONS: [number, string][] = [[50, '50'], [200, '200'], [1000, '1000'], [0, 'No limit']];
+
+const inputClassName = "bg-slate-800 border border-slate-700 rounded-lg px-3 py-1 text-white text-sm focus:outline-none focus:border-emerald-500 ml-auto";
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const PhotoStorageEditor: React.FC<PhotoStorageEditorProps> = ({ retention, onChange }) => {
+  const update = (changes: Partial<PhotoRetention>) => onChange({ ...retention, ...changes });
+  const [usage, setUsage] = useState<PhotoStorageUsage | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const refreshUsage = () => getPhotoStorageUsage().then(setUsage).catch(() => setUsage(null));
+
+  useEffect(() => { refreshUsage(); }, []);
+
+  const handleDeleteAll = async () => {
+    // Tapped twice on purpose: the photos can't be brought back
+    if (!isConfirmingDelete) {
+      setIsConfirmingDelete(true);
+      return;
+    }
+    setIsConfirmingDelete(false);
+    await deleteAllScanPhotos();
+    refreshUsage();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 p-1 bg-slate-800 rounded-lg">
+        {([[true, 'Keep Photos'], [false, 'Don\'t Keep']] as [boolean, string][]).map(([value, label]) => (
+          <button
+            key={label}
+            type="button"
+            onClick={() => update({ keepPhotos: value })}
+            className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${
+              retention.keepPhotos === value ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {retention.keepPhotos && (
+        <>
+          <div className="flex items-center gap-3">
+            <label className="text-xs text-slate-400">Delete photos after</label>
+            <select value={retention.maxAgeDays} onChange={(e) => update({ maxAgeDays: Number(e.target.value) })} className={inputClassName}>
+              {AGE_OPTIONS.map(([days, label]) => <option key={days} value={days}>{label}</option>)}
+            </select>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="text-xs text-slate-400">Keep at most</label>
+            <select value={retention.maxPhotos} onChange={(e) => update({ maxPhotos: Number(e.target.value) })} className={inputClassName}>
+              {COUNT_OPTIONS.map(([count, label]) => <option key={count} value={count}>{label}</option>)}
+            </select>
+          </div>
+        </>
+      )}
+
+      {usage && (
+        <p className="text-xs text-slate-400">
+          {usage.count} {usage.count === 1 ? 'photo' : 'photos'} using {formatMegabytes(usage.bytes)}
+          {usage.deviceUsage !== undefined && usage.deviceQuota !== undefined && (
+            <span className="text-slate-500"> · app data {formatMegabytes(usage.deviceUsage)} of {formatMegabytes(usage.deviceQuota)} available</span>
+          )}
+        </p>
+      )}
+
+      {usage && usage.count > 0 && (
+        <Button variant={isConfirmingDelete ? 'danger' : 'secondary'} fullWidth onClick={handleDeleteAll}>
+          {isConfirmingDelete ? 'Tap Again to Delete All Photos' : 'Delete All Photos'}
+        </Button>
+      )}
+    </div>
+  );
+};
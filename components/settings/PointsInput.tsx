@@ -0,0 +1,34 @@
+import React, { useState, useEffect } from 'react';
+
+interface PointsInputProps {
+  label?: string;
+  value: number;
+  onChange: (value: number) => void;
+  className?: string;
+}
+
+// Keeps its own text so partial entries like "-" survive until they parse
+export const PointsInput: React.FC<PointsInputProps> = ({ label, value, onChange, className = '' }) => {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    if (parseInt(text) !== value) setText(String(value));
+  }, [value]);
+
+  return (
+    <label className={`flex flex-col items-center bg-slate-800 rounded-lg border border-slate-700 p-2 focus-within:border-emerald-500 ${className}`}>
+      {label && <span className="text-xs font-bold text-slate-400">{label}</span>}
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          const parsed = parseInt(e.target.value);
+          if (!isNaN(parsed)) onChange(parsed);
+        }}
+        onBlur={() => setText(String(value))}
+        className="w-full bg-transparent text-center text-lg font-bold text-white focus:outline-none"
+      />
+    </label>
+  );
+};
@@ -0,0 +1,117 @@
+import React from 'react';
+import { RecognizerSettings } from '../../types';
+import { RECOGNIZERS, getRecognizer } from '../../services/recognitionService';
+import { MOCK_FIXTURES } from '../../services/mockRecognizer';
+
+interface RecognizerEditorProps {
+  settings: RecognizerSettings;
+  onChange: (settings: RecognizerSettings) => void;
+}
+
+// Longest side photos are shrunk to before reading; bigger reads small print better but uploads slower
+const IMAGE_SIZES = [1024, 1600, 2048, 3072];
+
+const inputClassName = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm placeholder-slate-500 focus:outline-none focus:border-emerald-500";
+
+export const RecognizerEditor: React.FC<RecognizerEditorProps> = ({ settings, onChange }) => {
+  const update = (changes: Partial<RecognizerSettings>) => onChange({ ...settings, ...changes });
+  const recognizer = getRecognizer(settings.backend);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-1 p-1 bg-slate-800 rounded-lg">
+        {RECOGNIZERS.map(r => (
+          <button
+            key={r.id}
+            type="button"
+            onClick={() => update({ backend: r.id })}
+            className={`py-2 rounded-md text-sm font-medium transition-all ${
+              settings.backend === r.id ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            {r.name}
+          </button>
+        ))}
+      </div>
+
+      {settings.backend === 'openai' && (
+        <div className="space-y-2">
+          <input
+            type="url"
+            value={settings.openAiEndpoint}
+            onChange={(e) => update({ openAiEndpoint: e.target.value })}
+            placeholder="https://api.openai.com/v1"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={settings.openAiModel}
+            onChange={(e) => update({ openAiModel: e.target.value })}
+            placeholder="Model (e.g. gpt-4o-mini)"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={settings.openAiApiKey}
+            onChange={(e) => update({ openAiApiKey: e.target.value })}
+            placeholder="API key (optional for local servers)"
+            autoComplete="off"
+            className={inputClassName}
+          />
+        </div>
+      )}
+
+      {settings.backend === 'mock' && (
+        <select
+          value={settings.mockFixtureId}
+          onChange={(e) => update({ mockFixtureId: e.target.value })}
+          className={inputClassName}
+        >
+          <option value="">Pick from the photo</option>
+          {MOCK_FIXTURES.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+        </select>
+      )}
+
+      {settings.backend === 'local' && (
+        <p className="text-xs text-slate-500">
+          Reads the corner index of upright standard cards and jokers. Works offline, but is less accurate than a cloud model.
+        </p>
+      )}
+
+      {!recognizer.isConfigured(settings) && (
+        <p className="text-xs text-red-400">
+          {settings.backend === 'gemini' ? 'No Gemini API key is configured for this app.' : 'Enter an endpoint and model to scan.'}
+          {' '}Until then scans are read on this device.
+        </p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <label className="text-xs text-slate-400">Photo size</label>
+        <select
+          value={settings.maxImageSide}
+          onChange={(e) => update({ maxImageSide: Number(e.target.value) })}
+          className={`${inputClassName} w-auto ml-auto py-1`}
+        >
+          {IMAGE_SIZES.map(size => <option key={size} value={size}>{size} px</option>)}
+        </select>
+      </div>
+      <div className="flex gap-2 p-1 bg-slate-800 rounded-lg">
+        {([[false, 'Photo as Taken'], [true, 'Boost Contrast']] as [boolean, string][]).map(([value, label]) => (
+          <button
+            key={label}
+            type="button"
+            onClick={() => update({ enhancePhotos: value })}
+            className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${
+              settings.enhancePhotos === value ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {settings.enhancePhotos && (
+        <p className="text-xs text-slate-500">Stretches contrast and tones down glare, for dim rooms and glossy cards.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { TotalRule } from '../../types';
+import { Button } from '../Button';
+import { IconPlus, IconTrash } from '../Icons';
+import { PointsInput } from './PointsInput';
+import { v4 as uuidv4 } from 'uuid';
+
+interface TotalRulesEditorProps {
+  rules: TotalRule[];
+  onChange: (rules: TotalRule[]) => void;
+}
+
+const TRIGGER_OPTIONS: [TotalRule['trigger'], string][] = [
+  ['exactly', 'Exactly'],
+  ['atLeast', 'Reaches'],
+  ['above', 'Goes above'],
+  ['below', 'Drops below']
+];
+
+const selectClassName = "bg-slate-700 text-white rounded px-2 py-1 text-sm font-bold border border-slate-600 focus:border-emerald-500 outline-none";
+
+export const TotalRulesEditor: React.FC<TotalRulesEditorProps> = ({ rules, onChange }) => {
+  const updateRule = (id: string, changes: Partial<TotalRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...changes } : r));
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: uuidv4(), trigger: 'exactly', value: 50, setTo: 0 }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.map((rule, i) => (
+        <div key={rule.id} className="bg-slate-800 rounded-lg border border-slate-700 p-3 flex items-center gap-2">
+          <span className="text-[10px] font-mono text-slate-500 w-4">{i + 1}.</span>
+          <select
+            value={rule.trigger}
+            onChange={(e) => updateRule(rule.id, { trigger: e.target.value as TotalRule['trigger'] })}
+            className={`${selectClassName} flex-1`}
+          >
+            {TRIGGER_OPTIONS.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+          <PointsInput value={rule.value} onChange={(value) => updateRule(rule.id, { value })} className="w-16 py-1" />
+          <span className="text-slate-500 text-xs">→</span>
+          <PointsInput value={rule.setTo} onChange={(setTo) => updateRule(rule.id, { setTo })} className="w-16 py-1" />
+          <button
+            type="button"
+            onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+            className="p-1.5 rounded bg-slate-700 text-slate-400 hover:text-red-400 hover:bg-slate-600"
+          >
+            <IconTrash className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <Button type="button" variant="ghost" fullWidth onClick={addRule} className="border-2 border-dashed border-slate-700 hover:border-slate-600 py-2 text-sm">
+        <IconPlus className="w-4 h-4 mr-2" /> Add Total Rule
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { WildCardSettings } from '../../types';
+import { PointsInput } from './PointsInput';
+import { RANKS } from '../../utils/scoringUtils';
+
+interface WildCardsEditorProps {
+  wildCards: WildCardSettings;
+  onChange: (wildCards: WildCardSettings) => void;
+}
+
+type WildMode = 'none' | 'fixed' | 'round';
+
+// Ranks a wild can progress through, lowest first (Jokers are handled by the rank table)
+const WILD_RANKS: string[] = RANKS.filter(r => r !== 'Joker');
+
+// One wild rank per round, from the starting rank up to Kings (Five Crowns: 3s to Kings over 11 rounds)
+const buildProgression = (startRank: string) => WILD_RANKS.slice(Math.max(0, WILD_RANKS.indexOf(startRank)));
+
+const selectClassName = "bg-slate-700 text-white rounded px-2 py-1 text-sm font-bold border border-slate-600 focus:border-emerald-500 outline-none";
+
+export const WildCardsEditor: React.FC<WildCardsEditorProps> = ({ wildCards, onChange }) => {
+  const ranks = wildCards.rankByRound;
+  const mode: WildMode = ranks.length === 0 ? 'none' : ranks.length === 1 ? 'fixed' : 'round';
+
+  const handleModeChange = (next: WildMode) => {
+    if (next === 'none') onChange({ ...wildCards, rankByRound: [] });
+    if (next === 'fixed') onChange({ ...wildCards, rankByRound: [ranks[0] || '2'] });
+    if (next === 'round') onChange({ ...wildCards, rankByRound: buildProgression(ranks[0] || '3') });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 p-1 bg-slate-800 rounded-lg">
+        {([['none', 'None'], ['fixed', 'Same Rank'], ['round', 'By Round']] as [WildMode, string][]).map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => handleModeChange(value)}
+            className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${
+              mode === value ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mode !== 'none' && (
+        <div className="flex items-center gap-3">
+          <label className="text-xs text-slate-400">{mode === 'fixed' ? 'Wild rank' : 'Round 1 wild'}</label>
+          <select
+            value={ranks[0]}
+            onChange={(e) => onChange({
+              ...wildCards,
+              rankByRound: mode === 'fixed' ? [e.target.value] : buildProgression(e.target.value)
+            })}
+            className={`${selectClassName} w-20`}
+          >
+            {WILD_RANKS.slice(0, mode === 'round' ? -1 : undefined).map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+          <label className="text-xs text-slate-400 ml-auto">Points</label>
+          <PointsInput value={wildCards.points} onChange={(points) => onChange({ ...wildCards, points })} className="w-20 py-1" />
+        </div>
+      )}
+
+      {mode === 'round' && (
+        <div className="flex flex-wrap gap-1">
+          {ranks.map((rank, i) => (
+            <span key={i} className="text-[10px] font-mono text-slate-400 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5">
+              R{i + 1}: {rank}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
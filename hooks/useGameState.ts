@@ -1,21 +1,66 @@
 
 import { useState, useEffect } from 'react';
-import { Player, CardSettings, AppView, Round } from '../types';
+import { Player, CardSettings, AppView, Round, RankValues, Team } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { FACE_VALUES, storeRoundMelds } from '../utils/scoringUtils';
+import { evaluateGame } from '../utils/gameEndUtils';
+import { DEFAULT_BID_SCORING } from '../utils/bidUtils';
+import { snapshotRuleset, hasRulesetChanges, stampRounds, restampRounds } from '../utils/rulesetUtils';
 
 export const DEFAULT_SETTINGS: CardSettings = {
-  jokerValue: 50,
-  aceValue: 20,
-  faceCardBehavior: 'fixed',
-  fixedFaceValue: 10,
-  numberCardBehavior: 'face',
-  fixedNumberValue: 5,
-  winningScoreType: 'lowest'
+  rankValues: { ...FACE_VALUES, J: 10, Q: 10, K: 10, A: 20, Joker: 50 },
+  cardRules: [],
+  wildCards: { rankByRound: [], points: 20 },
+  handScoring: 'all',
+  totalRules: [],
+  bidScoring: DEFAULT_BID_SCORING,
+  winningScoreType: 'lowest',
+  endCondition: { type: 'none' },
+  deckId: 'standard',
+  deckComposition: { deckCount: 1 },
+  rulesetVersion: 1
+};
+
+// Builds a rank table from the old joker/ace values and face/fixed toggles
+const migrateLegacyRankValues = (legacy: any): RankValues => {
+  const rankValues: RankValues = { ...FACE_VALUES };
+
+  if ((legacy.numberCardBehavior ?? 'face') === 'fixed') {
+    for (let n = 2; n <= 10; n++) rankValues[String(n)] = legacy.fixedNumberValue || 5;
+  }
+
+  if ((legacy.faceCardBehavior ?? 'fixed') === 'fixed') {
+    const faceValue = legacy.fixedFaceValue ?? legacy.faceValue;
+    rankValues.J = rankValues.Q = rankValues.K = faceValue || 10;
+  }
+
+  rankValues.A = legacy.aceValue ?? DEFAULT_SETTINGS.rankValues.A;
+  rankValues.Joker = legacy.jokerValue ?? DEFAULT_SETTINGS.rankValues.Joker;
+  return rankValues;
+};
+
+// Accepts settings from any app version (local storage, last game history) and fills in gaps
+export const migrateSettings = (parsed: any): CardSettings => {
+  const { jokerValue, aceValue, faceCardBehavior, fixedFaceValue, faceValue, numberCardBehavior, fixedNumberValue, ...rest } = parsed || {};
+  return {
+    ...DEFAULT_SETTINGS,
+    ...rest,
+    rankValues: {
+      ...DEFAULT_SETTINGS.rankValues,
+      ...(parsed?.rankValues ?? migrateLegacyRankValues(parsed || {}))
+    },
+    bidScoring: { ...DEFAULT_SETTINGS.bidScoring, ...parsed?.bidScoring },
+    winningScoreType: parsed?.winningScoreType ?? DEFAULT_SETTINGS.winningScoreType,
+    // Games from before decks were configurable: Five Crowns was the only non-standard deck
+    deckId: parsed?.deckId ?? (parsed?.presetId === 'five-crowns' ? 'five-crowns' : DEFAULT_SETTINGS.deckId),
+    deckComposition: { ...DEFAULT_SETTINGS.deckComposition, ...parsed?.deckComposition }
+  };
 };
 
 export const useGameState = (isClient: boolean) => {
   const [view, setView] = useState<AppView>(AppView.SETUP);
   const [players, setPlayers] = useState<Player[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
   const [settings, setSettings] = useState<CardSettings>(DEFAULT_SETTINGS);
   
   // Scanning State
@@ -27,6 +72,7 @@ export const useGameState = (isClient: boolean) => {
     if (!isClient) {
         const savedPlayers = localStorage.getItem('snapscore_players');
         const savedSettings = localStorage.getItem('snapscore_settings');
+        const savedTeams = localStorage.getItem('snapscore_teams');
         
         if (savedPlayers) {
             try {
@@ -49,17 +95,17 @@ export const useGameState = (isClient: boolean) => {
             }
         }
 
+        if (savedTeams) {
+            try {
+                setTeams(JSON.parse(savedTeams));
+            } catch (e) {
+                console.error("Failed to load saved teams", e);
+            }
+        }
+
         if (savedSettings) {
             try {
-                const parsed = JSON.parse(savedSettings);
-                const migratedSettings: CardSettings = {
-                    ...DEFAULT_SETTINGS,
-                    ...parsed,
-                    fixedFaceValue: parsed.fixedFaceValue ?? parsed.faceValue ?? DEFAULT_SETTINGS.fixedFaceValue,
-                    faceCardBehavior: parsed.faceCardBehavior ?? DEFAULT_SETTINGS.faceCardBehavior,
-                    winningScoreType: parsed.winningScoreType ?? DEFAULT_SETTINGS.winningScoreType
-                };
-                setSettings(migratedSettings);
+                setSettings(migrateSettings(JSON.parse(savedSettings)));
             } catch (e) {
                 console.error("Failed to load saved settings", e);
             }
@@ -67,6 +113,13 @@ export const useGameState = (isClient: boolean) => {
     }
   }, []); // Only run once on mount (conceptually), but depend on empty array. isClient check protects logic.
 
+  // Every deadwood round gets its melds stored once, whichever way it arrived (loaded, scanned, sent by a client)
+  useEffect(() => {
+    if (isClient) return;
+    const withMelds = storeRoundMelds(players, settings);
+    if (withMelds !== players) setPlayers(withMelds);
+  }, [players, settings, isClient]);
+
   // Persist State
   useEffect(() => {
     if (!isClient) {
@@ -74,6 +127,12 @@ export const useGameState = (isClient: boolean) => {
     }
   }, [players, isClient]);
 
+  useEffect(() => {
+    if (!isClient) {
+        localStorage.setItem('snapscore_teams', JSON.stringify(teams));
+    }
+  }, [teams, isClient]);
+
   useEffect(() => {
     if (!isClient) {
         localStorage.setItem('snapscore_settings', JSON.stringify(settings));
@@ -81,17 +140,21 @@ export const useGameState = (isClient: boolean) => {
   }, [settings, isClient]);
 
   // Actions
-  const updatePlayerRound = (playerId: string, round: Round) => {
+  // New rounds are appended, or go into `roundIndex` when they belong to an earlier round (queued scans)
+  const updatePlayerRound = (playerId: string, round: Round, roundIndex?: number) => {
     setPlayers(prev => prev.map(p => {
       if (p.id === playerId) {
         const existingRoundIndex = p.rounds.findIndex(r => r.id === round.id);
         let newRounds;
         
         if (existingRoundIndex >= 0) {
+            // Edits and rescans stay on the rules the round was first entered under
             newRounds = [...p.rounds];
-            newRounds[existingRoundIndex] = round;
+            newRounds[existingRoundIndex] = { ...round, ruleset: round.ruleset ?? p.rounds[existingRoundIndex].ruleset };
         } else {
-            newRounds = [...p.rounds, round];
+            const index = Math.min(roundIndex ?? p.rounds.length, p.rounds.length);
+            newRounds = [...p.rounds];
+            newRounds.splice(index, 0, { ...round, ruleset: round.ruleset ?? snapshotRuleset(settings) });
         }
         
         return { ...p, rounds: newRounds };
@@ -100,40 +163,68 @@ export const useGameState = (isClient: boolean) => {
     }));
   };
 
+  // New scoring rules only apply to rounds entered from now on, unless rescoreAll moves every round over
+  const updateSettings = (next: CardSettings, rescoreAll = false) => {
+      const changed = hasRulesetChanges(settings, next);
+      const versioned = { ...next, rulesetVersion: changed ? settings.rulesetVersion + 1 : settings.rulesetVersion };
+      if (rescoreAll) {
+          setPlayers(prev => restampRounds(prev, versioned));
+      } else if (changed) {
+          setPlayers(prev => stampRounds(prev, settings));
+      }
+      setSettings(versioned);
+  };
+
   const removePlayer = (playerId: string) => {
       setPlayers(prev => prev.filter(p => p.id !== playerId));
+      setTeams(prev => prev.map(t => ({ ...t, playerIds: t.playerIds.filter(id => id !== playerId) })));
   };
 
   const addPlayers = (newPlayers: Player[]) => {
       setPlayers(prev => [...prev, ...newPlayers]);
   };
 
+  // Saves the game and its result for the "Last Game" summary on the setup screen
+  const archiveGame = () => {
+      if (!players.some(p => p.rounds.length > 0)) return;
+      const status = evaluateGame(players, settings, teams);
+      try {
+          localStorage.setItem('snapscore_last_game', JSON.stringify({ 
+              timestamp: Date.now(), 
+              players, 
+              teams,
+              settings,
+              winnerIds: status.leaderIds,
+              endReason: status.reason
+          }));
+      } catch (e) { console.warn("Failed to save history", e); }
+  };
+
   const resetRounds = () => {
-      // Save history before clearing
-      if (players.length > 0) {
-        try {
-            localStorage.setItem('snapscore_last_game', JSON.stringify({ 
-                timestamp: Date.now(), 
-                players, 
-                settings 
-            }));
-        } catch (e) { console.warn("Failed to save history", e); }
-      }
-      
       const resetPlayers = players.map(p => ({ ...p, rounds: [] }));
       setPlayers(resetPlayers);
   };
 
+  // Game over (or abandoned): archive the result, then clear scores for the next game
+  const finishGame = () => {
+      archiveGame();
+      resetRounds();
+  };
+
   const clearSession = () => {
       setPlayers([]);
+      setTeams([]);
       setSettings(DEFAULT_SETTINGS);
       localStorage.removeItem('snapscore_players');
+      localStorage.removeItem('snapscore_teams');
       localStorage.removeItem('snapscore_settings');
   };
 
   return {
       players, setPlayers,
+      teams, setTeams,
       settings, setSettings,
+      updateSettings,
       view, setView,
       scanPlayerId, setScanPlayerId,
       scanRoundId, setScanRoundId,
@@ -141,6 +232,7 @@ export const useGameState = (isClient: boolean) => {
       removePlayer,
       addPlayers,
       resetRounds,
+      finishGame,
       clearSession
   };
 };
@@ -1,18 +1,19 @@
 
 import { useState, useEffect, useRef } from 'react';
-import { Player, CardSettings, AppView, P2PMessage } from '../types';
+import { Player, CardSettings, AppView, P2PMessage, Team } from '../types';
 import { p2p } from '../services/p2pService';
 
 const MAX_RETRIES = 5;
 
 interface UseMultiplayerProps {
   players: Player[];
+  teams: Team[];
   settings: CardSettings;
   view: AppView;
   onMessage: (msg: P2PMessage) => void;
 }
 
-export const useMultiplayer = ({ players, settings, view, onMessage }: UseMultiplayerProps) => {
+export const useMultiplayer = ({ players, teams, settings, view, onMessage }: UseMultiplayerProps) => {
   const [peerId, setPeerId] = useState<string>('');
   const [connectedPeers, setConnectedPeers] = useState<number>(0);
   const [connectedPeerIds, setConnectedPeerIds] = useState<string[]>([]);
@@ -136,12 +137,13 @@ export const useMultiplayer = ({ players, settings, view, onMessage }: UseMultip
              type: 'SYNC_STATE',
              payload: {
                  players,
+                 teams,
                  settings,
-                 view: view === AppView.SCAN ? AppView.GAME : view
+                 view: view === AppView.SCAN || view === AppView.TABLE_SCAN ? AppView.GAME : view
              }
          });
     }
-  }, [players, settings, view, connectedPeers, p2pUpdateTick]);
+  }, [players, teams, settings, view, connectedPeers, p2pUpdateTick]);
 
 
   // Actions
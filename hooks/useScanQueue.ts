@@ -0,0 +1,98 @@
+import { useState, useEffect, useRef } from 'react';
+import { CardSettings, PendingScan, RoundRuleset } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { getAllRecords, getRecord, putRecord, deleteRecord } from '../services/localDb';
+import { analyzeHand, isUsingFallback, loadRecognizerSettings } from '../services/recognitionService';
+import { toRecognitionError } from '../services/recognitionErrors';
+import { getGameDeck } from '../utils/deckDefinitions';
+
+// How often waiting photos are retried, on top of whenever the device comes back online
+const RETRY_INTERVAL_MS = 30000;
+
+const byCaptureTime = (a: PendingScan, b: PendingScan) => a.capturedAt - b.capturedAt;
+
+// Waiting photos are read by the backend the player picked, not by the on-device fallback
+const canAnalyze = () => !isUsingFallback(loadRecognizerSettings());
+
+// Photos that couldn't be read when taken. They are read in the background as soon as the
+// recognizer is reachable, then wait on the player's card until the round is confirmed.
+export const useScanQueue = (settings: CardSettings) => {
+  const [pendingScans, setPendingScans] = useState<PendingScan[]>([]);
+  const isProcessing = useRef(false);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  const save = async (scan: PendingScan) => {
+    await putRecord('pendingScans', scan);
+    setPendingScans(prev => [...prev.filter(s => s.id !== scan.id), scan].sort(byCaptureTime));
+  };
+
+  // A photo discarded while it was being read stays discarded
+  const saveIfQueued = async (scan: PendingScan) => {
+    if (await getRecord<PendingScan>('pendingScans', scan.id)) await save(scan);
+  };
+
+  const processQueue = async () => {
+    if (isProcessing.current) return;
+    isProcessing.current = true;
+    try {
+      // 'analyzing' left over from a closed tab is picked up again
+      const waiting = (await getAllRecords<PendingScan>('pendingScans'))
+        .filter(s => s.status === 'pending' || s.status === 'analyzing')
+        .sort(byCaptureTime);
+      for (const scan of waiting) {
+        if (!canAnalyze()) break;
+        await save({ ...scan, status: 'analyzing' });
+        try {
+          const result = await analyzeHand(scan.image, getGameDeck(settingsRef.current));
+          await saveIfQueued({ ...scan, status: 'ready', result, error: undefined });
+        } catch (err) {
+          const failure = toRecognitionError(err);
+          // Transient failures wait for the next round of retries; anything else needs the player
+          await saveIfQueued({ ...scan, status: failure.isTransient ? 'pending' : 'failed', error: failure.kind });
+          if (failure.isTransient) break;
+        }
+      }
+    } catch (e) {
+      console.error("Failed to process scan queue", e);
+    } finally {
+      isProcessing.current = false;
+    }
+  };
+
+  useEffect(() => {
+    getAllRecords<PendingScan>('pendingScans')
+      .then(scans => setPendingScans(scans.sort(byCaptureTime)))
+      .catch(e => console.error("Failed to load pending scans", e));
+
+    processQueue();
+    window.addEventListener('online', processQueue);
+    const timer = setInterval(processQueue, RETRY_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', processQueue);
+      clearInterval(timer);
+    };
+  }, []);
+
+  // Rejects when the photo can't be stored (quota, private browsing), so the caller can say so
+  const enqueueScan = async (playerId: string | null, image: string, roundNumber: number, ruleset: RoundRuleset, roundId?: string) => {
+    await save({
+      id: uuidv4(), playerId, image, roundNumber, ruleset, capturedAt: Date.now(), status: 'pending', ...(roundId ? { roundId } : {})
+    });
+    processQueue();
+  };
+
+  const discardScan = async (id: string) => {
+    await deleteRecord('pendingScans', id);
+    setPendingScans(prev => prev.filter(s => s.id !== id));
+  };
+
+  // Waiting photos belong to the game they were taken in
+  const clearScans = async () => {
+    const scans = await getAllRecords<PendingScan>('pendingScans');
+    await Promise.all(scans.map(scan => deleteRecord('pendingScans', scan.id)));
+    setPendingScans([]);
+  };
+
+  return { pendingScans, enqueueScan, discardScan, clearScans };
+};
@@ -0,0 +1,96 @@
+// Decides when a live camera feed is worth a photo: cards are in view, the hand has stopped moving and the
+// picture is as sharp as it's going to get. Works on small grayscale frames, so it can run
+// several times a second without a canvas of its own (and be checked without a browser).
+
+export interface FrameSample {
+  gray: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface AutoCaptureState {
+  previous: FrameSample | null;
+  stillSamples: number;  // Consecutive samples without movement
+  bestSharpness: number; // Sharpest sample since the hand came to rest
+}
+
+export const INITIAL_AUTO_CAPTURE: AutoCaptureState = { previous: null, stillSamples: 0, bestSharpness: 0 };
+
+// Frames are sampled at this width (height follows the video), plenty for movement and focus
+export const SAMPLE_WIDTH = 160;
+// Sampling rate of the feed
+export const SAMPLE_INTERVAL_MS = 125;
+// About a second of stillness before the shutter fires
+export const STILL_SAMPLES_NEEDED = 8;
+// Mean change per pixel (0-255) below which two samples count as the same scene; sensor noise stays under it
+const MOVEMENT_THRESHOLD = 6;
+// Mean edge strength of a blank table or a hopelessly blurred frame
+const MIN_SHARPNESS = 4;
+// Autofocus hunts after the hand stops; wait until the frame is close to the sharpest seen since
+const FOCUS_TOLERANCE = 0.9;
+// Card faces are the brightest thing on most tables: pixels at least this light (0-255) count as card
+const CARD_BRIGHTNESS = 150;
+// Cards cover at least this share of the frame...
+const MIN_CARD_AREA = 0.05;
+// ...and carry print: dark strokes with card on both sides, this many pixels away. The edge of a
+// blank sheet against the table is dark on one side only, and a bare table has no light at all.
+const INK_LEVEL = 90;
+const STROKE_REACH = 3;
+const MIN_PRINT_SHARE = 0.01; // Of the light area
+
+// Mean absolute brightness change per pixel
+export const frameDifference = (a: FrameSample, b: FrameSample): number => {
+  if (a.gray.length !== b.gray.length) return Infinity;
+  let sum = 0;
+  for (let i = 0; i < a.gray.length; i++) sum += Math.abs(a.gray[i] - b.gray[i]);
+  return sum / a.gray.length;
+};
+
+// Mean absolute Laplacian: crisp card print gives strong edges, blur flattens them
+export const frameSharpness = ({ gray, width, height }: FrameSample): number => {
+  if (width < 3 || height < 3) return 0;
+  let sum = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      sum += Math.abs(4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width]);
+    }
+  }
+  return sum / ((width - 2) * (height - 2));
+};
+
+// Whether the frame looks like it has cards in it: enough light area, with print on it
+export const hasCardsInView = ({ gray, width, height }: FrameSample): boolean => {
+  const r = STROKE_REACH;
+  if (width <= 2 * r || height <= 2 * r) return false;
+  const isLight = (i: number) => gray[i] >= CARD_BRIGHTNESS;
+  let light = 0;
+  let ink = 0;
+  for (let y = r; y < height - r; y++) {
+    for (let x = r; x < width - r; x++) {
+      const i = y * width + x;
+      if (isLight(i)) light++;
+      else if (gray[i] <= INK_LEVEL
+        && ((isLight(i - r) && isLight(i + r)) || (isLight(i - r * width) && isLight(i + r * width)))) ink++;
+    }
+  }
+  const area = (width - 2 * r) * (height - 2 * r);
+  return light >= area * MIN_CARD_AREA && ink >= light * MIN_PRINT_SHARE;
+};
+
+// Feeds one sample in; `ready` means take the photo now
+export const nextAutoCapture = (state: AutoCaptureState, sample: FrameSample): { state: AutoCaptureState; ready: boolean; progress: number } => {
+  const sharpness = frameSharpness(sample);
+  const isStill = !!state.previous && frameDifference(state.previous, sample) < MOVEMENT_THRESHOLD;
+  const stillSamples = isStill ? state.stillSamples + 1 : 0;
+  const bestSharpness = isStill ? Math.max(state.bestSharpness, sharpness) : sharpness;
+  const ready = stillSamples >= STILL_SAMPLES_NEEDED
+    && sharpness >= MIN_SHARPNESS
+    && sharpness >= bestSharpness * FOCUS_TOLERANCE
+    && hasCardsInView(sample);
+  return {
+    state: { previous: sample, stillSamples, bestSharpness },
+    ready,
+    progress: Math.min(1, stillSamples / STILL_SAMPLES_NEEDED)
+  };
+};
@@ -0,0 +1,103 @@
+import { CameraSettings, CameraResolution } from "../types";
+
+// Torch, zoom and focus are only exposed by some browsers (mostly Chrome on Android), and the
+// DOM typings don't know them yet. Everything here checks the track's capabilities first.
+
+export const RESOLUTIONS: { id: CameraResolution; label: string; width: number; height: number }[] = [
+  { id: '720p', label: '720p', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: '4k', label: '4K', width: 3840, height: 2160 }
+];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  facingMode: 'environment',
+  resolution: '1080p'
+};
+
+const STORAGE_KEY = 'snapscore_camera';
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return { ...DEFAULT_CAMERA_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getVideoConstraints = (settings: CameraSettings): MediaTrackConstraints => {
+  const resolution = RESOLUTIONS.find(r => r.id === settings.resolution) || RESOLUTIONS[1];
+  return { facingMode: settings.facingMode, width: { ideal: resolution.width }, height: { ideal: resolution.height } };
+};
+
+export interface ZoomRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// What this camera lets us control
+export interface CameraControls {
+  torch: boolean;
+  zoom: ZoomRange | null;
+  tapToFocus: boolean;
+}
+
+interface ExtendedCapabilities {
+  torch?: boolean;
+  zoom?: { min?: number; max?: number; step?: number };
+  focusMode?: string[];
+  pointsOfInterest?: unknown;
+}
+
+export const NO_CAMERA_CONTROLS: CameraControls = { torch: false, zoom: null, tapToFocus: false };
+
+export const getCameraControls = (track: MediaStreamTrack): CameraControls => {
+  // Firefox and older Safari have no getCapabilities at all
+  if (typeof track.getCapabilities !== 'function') return NO_CAMERA_CONTROLS;
+  const capabilities = track.getCapabilities() as MediaTrackCapabilities & ExtendedCapabilities;
+  const zoom = capabilities.zoom;
+  return {
+    torch: capabilities.torch === true,
+    zoom: zoom && zoom.max !== undefined && zoom.min !== undefined && zoom.max > zoom.min
+      ? { min: zoom.min, max: zoom.max, step: zoom.step || 0.1 }
+      : null,
+    tapToFocus: !!capabilities.focusMode?.includes('single-shot') || capabilities.pointsOfInterest !== undefined
+  };
+};
+
+// Untyped constraints go through `advanced`, where an unsupported one is ignored rather than fatal
+const applyAdvanced = (track: MediaStreamTrack, constraint: Record<string, unknown>) =>
+  track.applyConstraints({ advanced: [constraint as MediaTrackConstraintSet] });
+
+export const setTorch = (track: MediaStreamTrack, on: boolean) => applyAdvanced(track, { torch: on });
+
+export const setZoom = (track: MediaStreamTrack, zoom: number) => applyAdvanced(track, { zoom });
+
+// `point` is in frame coordinates from 0 to 1
+export const focusAt = (track: MediaStreamTrack, point: { x: number; y: number }) =>
+  applyAdvanced(track, { pointsOfInterest: [point], focusMode: 'single-shot' });
+
+export const clampZoom = (zoom: number, range: ZoomRange) => {
+  const stepped = Math.round((zoom - range.min) / range.step) * range.step + range.min;
+  // Rounded so steps of 0.1 don't drift into 2.4000000000000004
+  return Math.min(range.max, Math.max(range.min, Math.round(stepped * 100) / 100));
+};
+
+// Where a tap on an object-cover video lands in the frame itself (0-1), undoing the crop and any mirroring
+export const toFramePoint = (
+  tap: { x: number; y: number },
+  element: { width: number; height: number },
+  video: { width: number; height: number },
+  isMirrored: boolean
+) => {
+  const scale = Math.max(element.width / video.width, element.height / video.height);
+  const x = (tap.x - (element.width - video.width * scale) / 2) / (video.width * scale);
+  const y = (tap.y - (element.height - video.height * scale) / 2) / (video.height * scale);
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  return { x: clamp(isMirrored ? 1 - x : x), y: clamp(y) };
+};
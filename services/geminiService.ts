@@ -1,47 +1,49 @@
-
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { ScanResult } from "../types";
-
-const SYSTEM_PROMPT = `
-    You are an expert card game assistant. Your task is to accurately identify and list every playing card visible in the provided image.
-
-    STRATEGY:
-    1. Scan the image methodically (e.g., from top-left to bottom-right).
-    2. Pay close attention to **overlapping cards** or "fanned" hands. Look for visible indices (numbers/letters and suit symbols) in the corners even if the rest of the card is hidden.
-    3. Count the cards you see to ensure you don't miss any in a sequence.
-    4. If a card is partially obscured but identifiable, include it.
-
-    INSTRUCTIONS:
-    1. Return the Rank and Suit for each card.
-    2. **CRITICAL**: Identify specific Jokers. 
-       - Cards with '$' or 'S' in the corner are Jokers.
-       - Cards explicitly labeled JOKER are Jokers.
-    
-    FORMAT:
-    - Rank: Use '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A', or 'Joker'.
-    - Suit: Use 'Spades', 'Hearts', 'Diamonds', 'Clubs', 'Stars', 'None'.
-`;
-
-const responseSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    cards: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-            rank: { type: Type.STRING, description: "Rank of the card (e.g., 'A', '10', 'K', 'Joker')" },
-            suit: { type: Type.STRING, description: "Suit of the card (e.g., 'Hearts', 'Stars', 'None')" }
+import { CardRecognizer } from "./recognitionService";
+import { buildSystemPrompt, stripDataUrl, getDataUrlMimeType, parseScanResult } from "./recognitionPrompt";
+import { RecognitionError } from "./recognitionErrors";
+import { DeckDefinition, getDeckRanks, getDeckSuits } from "../utils/deckDefinitions";
+
+// Rank and suit are enums of the deck's own values, so impossible cards can't be returned at all
+const buildResponseSchema = (deck: DeckDefinition): Schema => {
+  const rank: Schema = { type: Type.STRING, format: 'enum', enum: getDeckRanks(deck) };
+  const suit: Schema = { type: Type.STRING, format: 'enum', enum: getDeckSuits(deck) };
+  return {
+    type: Type.OBJECT,
+    properties: {
+      cards: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+              rank: { ...rank, description: "Rank of the card" },
+              suit: { ...suit, description: "Suit of the card" },
+              confidence: { type: Type.NUMBER, description: "How sure the reading is, from 0 to 1" },
+              alternatives: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: { rank, suit },
+                  required: ["rank", "suit"]
+                },
+                description: "Other plausible readings for an uncertain card, most likely first"
+              },
+              box: {
+                type: Type.ARRAY,
+                items: { type: Type.NUMBER },
+                description: "Bounding box of the card as [ymin, xmin, ymax, xmax], scaled 0-1000"
+              }
+          },
+          required: ["rank", "suit", "confidence"]
         },
-        required: ["rank", "suit"]
-      },
-      description: "A list of the detected cards."
-    }
-  },
-  required: ["cards"]
+        description: "A list of the detected cards."
+      }
+    },
+    required: ["cards"]
+  };
 };
 
-const getApiKey = (): string | undefined => {
+export const getApiKey = (): string | undefined => {
   let key: string | undefined = undefined;
 
   // 1. Try process.env.API_KEY (System Standard)
@@ -75,54 +77,58 @@ const getApiKey = (): string | undefined => {
   return key;
 };
 
-export const analyzeHand = async (base64Image: string): Promise<ScanResult> => {
-  try {
-    const apiKey = getApiKey();
-
-    if (!apiKey) {
-      console.error("Gemini API Key is missing. Ensure VITE_GEMINI_API_KEY is set in Netlify.");
-      throw new Error("API Key not configured");
-    }
+export const geminiRecognizer: CardRecognizer = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  runsOnDevice: false,
+  readsHeic: true,
+  isConfigured: () => !!getApiKey(),
+  analyze: async (base64Image, _settings, deck, signal) => {
+    try {
+      const apiKey = getApiKey();
 
-    // Normalize base64 string (remove data URL prefix if present)
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
+      if (!apiKey) {
+        console.error("Gemini API Key is missing. Ensure VITE_GEMINI_API_KEY is set in Netlify.");
+        throw new RecognitionError('missingKey', "API Key not configured");
+      }
 
-    const ai = new GoogleGenAI({ apiKey });
-    
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: cleanBase64
+      const ai = new GoogleGenAI({ apiKey });
+      
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType: getDataUrlMimeType(base64Image),
+                data: stripDataUrl(base64Image)
+              }
+            },
+            {
+              text: buildSystemPrompt(deck)
             }
-          },
-          {
-            text: SYSTEM_PROMPT
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: buildResponseSchema(deck),
+          abortSignal: signal,
+          temperature: 0.1,
+          thinkingConfig: {
+            thinkingBudget: 2048 // Allocating token budget for better reasoning on dense images
           }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.1,
-        thinkingConfig: {
-          thinkingBudget: 2048 // Allocating token budget for better reasoning on dense images
         }
-      }
-    });
+      });
 
-    if (!response.text) {
-        throw new Error("No response from AI");
-    }
+      if (!response.text) {
+          throw new RecognitionError('empty', "No response from AI");
+      }
 
-    const result = JSON.parse(response.text) as ScanResult;
-    return result;
+      return parseScanResult(response.text);
 
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw error;
+    } catch (error) {
+      console.error("Gemini Analysis Error:", error);
+      throw error;
+    }
   }
 };
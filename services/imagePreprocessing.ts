@@ -0,0 +1,133 @@
+import { toGray } from "./localVision";
+
+// The pure half of photo preparation: file sniffing, EXIF orientation, sizing and pixel
+// adjustments, all on plain byte and pixel arrays so they run (and can be checked) without a browser.
+// photoPipeline.ts does the decoding and drawing around them.
+
+export type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/gif' | 'image/heic' | 'image/heif';
+
+// Brands of the ISO base media file the HEIF family uses (bytes 8-11)
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];
+const HEIF_BRANDS = ['mif1', 'msf1', 'avif'];
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// What the file actually is, whatever its name or the picker claimed
+export const detectImageType = (bytes: Uint8Array): ImageMimeType | null => {
+  if (bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) return 'image/jpeg';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'image/png';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (HEIC_BRANDS.includes(brand)) return 'image/heic';
+    if (HEIF_BRANDS.includes(brand)) return 'image/heif';
+  }
+  return null;
+};
+
+// EXIF orientation (1-8) of a JPEG, 1 when there is none.
+// Phones store portrait shots sideways and leave it to this tag to turn them upright.
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  if (detectImageType(bytes) !== 'image/jpeg') return 1;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xD9 || marker === 0xDA) break; // End of image, or image data: no more metadata
+    const size = view.getUint16(offset + 2);
+    if (marker === 0xE1 && ascii(bytes, offset + 4, 6) === 'Exif\0\0') {
+      const tiff = offset + 10;
+      if (tiff + 8 > bytes.length) return 1;
+      const little = ascii(bytes, tiff, 2) === 'II';
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > bytes.length) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > bytes.length) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + size;
+  }
+  return 1;
+};
+
+// Orientations 5-8 are turned a quarter, so width and height swap
+export const orientedSize = (width: number, height: number, orientation: number) =>
+  orientation >= 5 ? { width: height, height: width } : { width, height };
+
+// Canvas transform [a, b, c, d, e, f] that draws a stored width x height image upright
+export const orientationTransform = (orientation: number, width: number, height: number): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+// Shrinks (never enlarges) so the longer side is at most maxSide
+export const fitWithin = (width: number, height: number, maxSide: number) => {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Brightness below which `share` of the pixels fall
+const percentile = (gray: Uint8Array, share: number): number => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const target = gray.length * share;
+  let seen = 0;
+  for (let v = 0; v < 256; v++) {
+    seen += histogram[v];
+    if (seen >= target) return v;
+  }
+  return 255;
+};
+
+// Stretches the brightness range so the darkest and brightest 1% hit black and white.
+// Dim indoor shots get crisper print; already punchy photos barely change.
+export const stretchContrast = (rgba: Uint8ClampedArray): Uint8ClampedArray => {
+  const gray = toGray(rgba);
+  const low = percentile(gray, 0.01);
+  const high = percentile(gray, 0.99);
+  const out = new Uint8ClampedArray(rgba);
+  if (high - low < 16) return out; // Nearly flat: stretching would only amplify noise
+  const scale = 255 / (high - low);
+  for (let i = 0; i < out.length; i += 4) {
+    out[i] = (rgba[i] - low) * scale;
+    out[i + 1] = (rgba[i + 1] - low) * scale;
+    out[i + 2] = (rgba[i + 2] - low) * scale;
+  }
+  return out;
+};
+
+// Above this brightness, highlights are compressed
+const GLARE_KNEE = 200;
+
+// Glossy cards under a lamp blow out into flat white patches that swallow the print.
+// Compressing the top of the range keeps what detail is left in them apart from the paper.
+export const reduceGlare = (rgba: Uint8ClampedArray): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(rgba);
+  for (let i = 0; i < out.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const v = rgba[i + c];
+      if (v > GLARE_KNEE) out[i + c] = GLARE_KNEE + (v - GLARE_KNEE) * 0.6;
+    }
+  }
+  return out;
+};
+
+export const enhancePhoto = (rgba: Uint8ClampedArray): Uint8ClampedArray => reduceGlare(stretchContrast(rgba));
@@ -0,0 +1,52 @@
+// Device-local storage for things too big for localStorage (photos). Nothing here is synced to other players.
+
+const DB_NAME = 'snapscore';
+const DB_VERSION = 2;
+
+// Every object store, keyed by each record's `id`
+export type StoreName = 'pendingScans' | 'scanPhotos';
+const STORES: StoreName[] = ['pendingScans', 'scanPhotos'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // New stores are created as the version goes up; existing data is left alone
+      request.onupgradeneeded = () => {
+        STORES.forEach(store => {
+          if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store, { keyPath: 'id' });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getAllRecords = <T>(store: StoreName): Promise<T[]> => run(store, 'readonly', s => s.getAll() as IDBRequest<T[]>);
+
+export const getRecord = <T>(store: StoreName, id: string): Promise<T | undefined> =>
+  run(store, 'readonly', s => s.get(id) as IDBRequest<T | undefined>);
+
+export const putRecord = async <T extends { id: string }>(store: StoreName, record: T): Promise<void> => {
+  await run(store, 'readwrite', s => s.put(record));
+};
+
+export const deleteRecord = async (store: StoreName, id: string): Promise<void> => {
+  await run(store, 'readwrite', s => s.delete(id));
+};
@@ -0,0 +1,256 @@
+import { CardRank, CardReading, CardSuit, RecognizedCard } from "../types";
+import { CardRecognizer } from "./recognitionService";
+import { RecognitionError } from "./recognitionErrors";
+import {
+  Component, PixelBox, toGray, isRedPixel, otsuThreshold, findComponents, unionBox, sampleGlyph, glyphSimilarity
+} from "./localVision";
+
+// Classical corner-index matching for standard 52-card decks plus jokers. It reads the
+// rank and suit printed in each card's top-left corner, so cards need to be roughly upright.
+
+interface Template<L extends string = string> {
+  label: L;
+  glyph: Float32Array;
+}
+
+interface Candidate extends Component {
+  glyph: Float32Array;
+  ranks: { label: CardRank; score: number }[];
+  suits: { label: CardSuit; score: number }[];
+  jokerScore: number;
+  redShare: number; // How much of the glyph is printed in red
+}
+
+// Photos are shrunk to this before reading; corner indices stay legible well below it
+const MAX_SIDE = 1000;
+
+const RANK_LABELS: CardRank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+const SUIT_GLYPHS: [CardSuit, string][] = [['Spades', '♠'], ['Hearts', '♥'], ['Diamonds', '♦'], ['Clubs', '♣']];
+const RED_SUITS: CardSuit[] = ['Hearts', 'Diamonds'];
+// Jokers print JOKER down the corner; a J with an O under it is the tell
+const JOKER_LETTER = 'O';
+// Card makers differ, so every glyph is compared against a few typefaces and the best one counts
+const FONTS = ['bold 64px Arial, sans-serif', 'bold 64px Georgia, serif', '64px "Times New Roman", serif'];
+
+// Below this a glyph isn't considered a match at all
+const MIN_MATCH = 0.55;
+// Readings within this of the best one are offered as alternatives
+const ALTERNATIVE_MARGIN = 0.1;
+// Glyphs matched against the templates between breaks for the main thread
+const GLYPHS_PER_BATCH = 40;
+
+let templates: { ranks: Template<CardRank>[]; suits: Template<CardSuit>[]; joker: Template[] } | null = null;
+
+const renderGlyph = (text: string, font: string): Float32Array => {
+  const size = 96;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, size, size);
+  ctx.fillStyle = '#000';
+  ctx.font = font;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, size / 2, size / 2);
+
+  const gray = toGray(ctx.getImageData(0, 0, size, size).data);
+  const pixels: number[] = [];
+  gray.forEach((value, i) => { if (value < 128) pixels.push(i); });
+  const xs = pixels.map(i => i % size), ys = pixels.map(i => Math.floor(i / size));
+  const box = { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs) + 1, height: Math.max(...ys) - Math.min(...ys) + 1 };
+  return sampleGlyph(pixels, size, box);
+};
+
+const getTemplates = () => {
+  if (!templates) {
+    const render = <L extends string>(label: L, text: string) => FONTS.map(font => ({ label, glyph: renderGlyph(text, font) }));
+    templates = {
+      ranks: RANK_LABELS.flatMap(rank => render(rank, rank)),
+      // U+FE0E asks for the plain text glyph rather than an emoji
+      suits: SUIT_GLYPHS.flatMap(([suit, symbol]) => render(suit, `${symbol}\uFE0E`)),
+      joker: render(JOKER_LETTER, JOKER_LETTER)
+    };
+  }
+  return templates;
+};
+
+// Best score per label, highest first
+const scoreLabels = <L extends string>(glyph: Float32Array, candidates: Template<L>[]) => {
+  const best = new Map<L, number>();
+  candidates.forEach(t => best.set(t.label, Math.max(best.get(t.label) ?? -1, glyphSimilarity(glyph, t.glyph))));
+  return [...best.entries()].map(([label, score]) => ({ label, score })).sort((a, b) => b.score - a.score);
+};
+
+// Reading runs on the main thread: between stages it lets the page draw and respond,
+// and stops there if the scan was cancelled or timed out meanwhile
+const nextStage = async (signal?: AbortSignal) => {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  if (signal?.aborted) throw new RecognitionError('cancelled', "Scan cancelled");
+};
+
+const loadImageData = async (base64Image: string): Promise<ImageData> => {
+  const img = new Image();
+  img.src = base64Image.startsWith('data:') ? base64Image : `data:image/jpeg;base64,${base64Image}`;
+  await img.decode();
+  const scale = Math.min(1, MAX_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const contains = (outer: PixelBox, inner: PixelBox) =>
+  inner.x >= outer.x && inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+
+// "10" prints as two separate shapes: join a narrow glyph with the one right next to it
+const mergeTens = (components: Component[]): Component[] => {
+  const sorted = [...components].sort((a, b) => a.x - b.x);
+  const used = new Set<Component>();
+  const result: Component[] = [];
+  sorted.forEach(left => {
+    if (used.has(left)) return;
+    const right = left.width / left.height < 0.45 && sorted.find(other =>
+      other !== left && !used.has(other) &&
+      other.x > left.x + left.width - 1 &&
+      other.x - (left.x + left.width) < left.height * 0.6 &&
+      Math.abs(other.height - left.height) < left.height * 0.3 &&
+      Math.abs(other.y - left.y) < left.height * 0.3
+    );
+    if (right) {
+      used.add(right);
+      result.push({ ...unionBox(left, right), area: left.area + right.area, pixels: [...left.pixels, ...right.pixels] });
+    } else {
+      result.push(left);
+    }
+  });
+  return result;
+};
+
+const findCandidates = async (image: ImageData, signal?: AbortSignal): Promise<Candidate[]> => {
+  const { width, height, data } = image;
+  const gray = toGray(data);
+
+  // Cards are the bright regions of the photo; without any, look at the whole frame
+  const threshold = otsuThreshold(gray);
+  const bright = gray.map(v => v > threshold ? 1 : 0);
+  const cards: PixelBox[] = findComponents(bright, width, height, width * height * 0.01);
+  if (cards.length === 0) cards.push({ x: 0, y: 0, width, height });
+  await nextStage(signal);
+
+  // Print is whatever is dark inside a card
+  const ink = new Uint8Array(gray.length);
+  cards.forEach(card => {
+    for (let y = card.y; y < card.y + card.height; y++) {
+      for (let x = card.x; x < card.x + card.width; x++) {
+        if (gray[y * width + x] <= threshold) ink[y * width + x] = 1;
+      }
+    }
+  });
+
+  const glyphs = findComponents(ink, width, height, 12).filter(c => {
+    const card = cards.find(card => contains(card, c));
+    if (!card) return false;
+    const touchesEdge = c.x === card.x || c.y === card.y ||
+      c.x + c.width === card.x + card.width || c.y + c.height === card.y + card.height;
+    const aspect = c.width / c.height;
+    return !touchesEdge && c.height >= 8 && c.height <= card.height * 0.25 && aspect >= 0.15 && aspect <= 1.5;
+  });
+  await nextStage(signal);
+
+  const { ranks, suits, joker } = getTemplates();
+  const merged = mergeTens(glyphs);
+  const candidates: Candidate[] = [];
+  for (let index = 0; index < merged.length; index++) {
+    if (index > 0 && index % GLYPHS_PER_BATCH === 0) await nextStage(signal);
+    const c = merged[index];
+    const glyph = sampleGlyph(c.pixels, width, c);
+    candidates.push({
+      ...c,
+      glyph,
+      ranks: scoreLabels(glyph, ranks),
+      suits: scoreLabels(glyph, suits),
+      jokerScore: scoreLabels(glyph, joker)[0].score,
+      redShare: c.pixels.filter(i => isRedPixel(data, i)).length / c.pixels.length
+    });
+  }
+  return candidates;
+};
+
+// The shape directly under a rank glyph, about the same size: its suit (or the O of JOKER)
+const findBelow = (rank: Candidate, candidates: Candidate[], used: Set<Candidate>) => {
+  const rankCenter = rank.x + rank.width / 2;
+  return candidates
+    .filter(c => !used.has(c) && c !== rank &&
+      c.y >= rank.y + rank.height * 0.8 && c.y <= rank.y + rank.height * 2.2 &&
+      Math.abs(c.x + c.width / 2 - rankCenter) < rank.width * 0.9 + c.width * 0.5 &&
+      c.height >= rank.height * 0.4 && c.height <= rank.height * 1.4)
+    .sort((a, b) => a.y - b.y)[0];
+};
+
+const toConfidence = (score: number) => Math.max(0, Math.min(1, (score - MIN_MATCH) / (0.95 - MIN_MATCH)));
+
+const readCorners = async (image: ImageData, signal?: AbortSignal): Promise<RecognizedCard[]> => {
+  const candidates = (await findCandidates(image, signal)).sort((a, b) => a.y - b.y || a.x - b.x);
+  await nextStage(signal);
+  const used = new Set<Candidate>();
+  const cards: RecognizedCard[] = [];
+  const toBox = (box: PixelBox) => ({
+    x: box.x / image.width,
+    y: box.y / image.height,
+    width: box.width / image.width,
+    height: box.height / image.height
+  });
+
+  candidates.forEach(rank => {
+    if (used.has(rank)) return;
+    const bestRank = rank.ranks[0];
+    if (bestRank.score < MIN_MATCH || bestRank.score < rank.suits[0].score) return;
+    const below = findBelow(rank, candidates, used);
+    if (!below) return;
+
+    if (bestRank.label === 'J' && below.jokerScore > below.suits[0].score && below.jokerScore >= MIN_MATCH) {
+      used.add(rank).add(below);
+      cards.push({ rank: 'Joker', suit: 'None', confidence: toConfidence(Math.min(bestRank.score, below.jokerScore)), box: toBox(unionBox(rank, below)) });
+      return;
+    }
+
+    // Ink color settles red vs black, so only the shape within that color is compared
+    const isRed = below.redShare > 0.4;
+    const suits = below.suits.filter(s => RED_SUITS.includes(s.label) === isRed);
+    const bestSuit = suits[0];
+    if (!bestSuit || bestSuit.score < MIN_MATCH) return;
+
+    used.add(rank).add(below);
+    const alternatives: CardReading[] = [
+      ...rank.ranks.slice(1).filter(r => bestRank.score - r.score <= ALTERNATIVE_MARGIN).map(r => ({ rank: r.label, suit: bestSuit.label })),
+      ...suits.slice(1).filter(s => bestSuit.score - s.score <= ALTERNATIVE_MARGIN).map(s => ({ rank: bestRank.label, suit: s.label }))
+    ].slice(0, 3);
+    cards.push({
+      rank: bestRank.label,
+      suit: bestSuit.label,
+      confidence: toConfidence(Math.min(bestRank.score, bestSuit.score)),
+      alternatives,
+      box: toBox(unionBox(rank, below))
+    });
+  });
+
+  return cards;
+};
+
+export const localRecognizer: CardRecognizer = {
+  id: 'local',
+  name: 'On-Device',
+  runsOnDevice: true,
+  readsHeic: false,
+  isConfigured: () => true,
+  analyze: async (base64Image, _settings, _deck, signal) => {
+    const image = await loadImageData(base64Image);
+    await nextStage(signal);
+    return { cards: await readCorners(image, signal) };
+  }
+};
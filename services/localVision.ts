@@ -0,0 +1,142 @@
+// Small pixel helpers for the on-device recognizer. Everything works on flat arrays
+// (one entry per pixel, row by row) so it runs without a canvas and without any model files.
+
+export interface PixelBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Component extends PixelBox {
+  area: number; // Number of pixels set
+  pixels: number[]; // Indexes into the mask
+}
+
+export const toGray = (rgba: Uint8ClampedArray): Uint8Array => {
+  const gray = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2]);
+  }
+  return gray;
+};
+
+// Red print (hearts, diamonds) is clearly redder than it is green or blue
+export const isRedPixel = (rgba: Uint8ClampedArray, index: number): boolean => {
+  const r = rgba[index * 4], g = rgba[index * 4 + 1], b = rgba[index * 4 + 2];
+  return r > 110 && r - Math.max(g, b) > 50;
+};
+
+// Threshold that best splits the values into a dark and a light group
+export const otsuThreshold = (values: ArrayLike<number>): number => {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < values.length; i++) histogram[values[i]]++;
+
+  const total = values.length;
+  const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+  let sumDark = 0, countDark = 0, best = 0, threshold = 127;
+  for (let t = 0; t < 256; t++) {
+    countDark += histogram[t];
+    if (countDark === 0) continue;
+    const countLight = total - countDark;
+    if (countLight === 0) break;
+    sumDark += t * histogram[t];
+    const meanDark = sumDark / countDark;
+    const meanLight = (sumAll - sumDark) / countLight;
+    const between = countDark * countLight * (meanDark - meanLight) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+// 4-connected regions of set pixels, skipping anything smaller than minArea
+export const findComponents = (mask: Uint8Array, width: number, height: number, minArea = 1): Component[] => {
+  const seen = new Uint8Array(mask.length);
+  const components: Component[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const pixels: number[] = [];
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      pixels.push(i);
+      const x = i % width, y = (i - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, y > 0 ? i - width : -1, y < height - 1 ? i + width : -1];
+      for (const n of neighbours) {
+        if (n >= 0 && mask[n] && !seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    if (pixels.length >= minArea) {
+      components.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, area: pixels.length, pixels });
+    }
+  }
+  return components;
+};
+
+export const unionBox = (a: PixelBox, b: PixelBox): PixelBox => {
+  const x = Math.min(a.x, b.x), y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  };
+};
+
+// Glyphs are compared on a fixed grid, whatever size they were printed at
+export const GLYPH_COLUMNS = 12;
+export const GLYPH_ROWS = 16;
+
+// How much of each grid cell is covered by the component's pixels (0-1).
+// Each cell averages at least one source pixel, so glyphs smaller than the grid are stretched.
+export const sampleGlyph = (pixels: number[], width: number, box: PixelBox): Float32Array => {
+  const bitmap = new Uint8Array(box.width * box.height);
+  for (const i of pixels) {
+    const x = i % width - box.x, y = Math.floor(i / width) - box.y;
+    if (x >= 0 && y >= 0 && x < box.width && y < box.height) bitmap[y * box.width + x] = 1;
+  }
+
+  const coverage = new Float32Array(GLYPH_COLUMNS * GLYPH_ROWS);
+  for (let row = 0; row < GLYPH_ROWS; row++) {
+    const y0 = Math.floor(row * box.height / GLYPH_ROWS);
+    const y1 = Math.max(y0 + 1, Math.ceil((row + 1) * box.height / GLYPH_ROWS));
+    for (let column = 0; column < GLYPH_COLUMNS; column++) {
+      const x0 = Math.floor(column * box.width / GLYPH_COLUMNS);
+      const x1 = Math.max(x0 + 1, Math.ceil((column + 1) * box.width / GLYPH_COLUMNS));
+      let set = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) set += bitmap[y * box.width + x];
+      }
+      coverage[row * GLYPH_COLUMNS + column] = set / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return coverage;
+};
+
+// Normalized cross-correlation: 1 for the same shape, around 0 for unrelated ones
+export const glyphSimilarity = (a: Float32Array, b: Float32Array): number => {
+  const mean = (v: Float32Array) => v.reduce((sum, x) => sum + x, 0) / v.length;
+  const meanA = mean(a), meanB = mean(b);
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const da = a[i] - meanA, db = b[i] - meanB;
+    dot += da * db;
+    normA += da * da;
+    normB += db * db;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
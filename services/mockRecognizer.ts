@@ -0,0 +1,132 @@
+import { BoundingBox, ScanResult } from "../types";
+import { CardRecognizer } from "./recognitionService";
+
+export interface MockFixture {
+  id: string;
+  name: string;
+  result: ScanResult;
+  manualOnly?: boolean; // Only returned when picked in settings
+}
+
+// Known hands for demos, tests and networks that can't reach a model
+export const MOCK_FIXTURES: MockFixture[] = [
+  {
+    id: 'mixed-hand',
+    name: 'Mixed hand (7 cards)',
+    result: {
+      cards: [
+        { rank: 'A', suit: 'Spades', confidence: 0.98 },
+        { rank: '6', suit: 'Hearts', confidence: 0.52, alternatives: [{ rank: '9', suit: 'Hearts' }] },
+        { rank: '10', suit: 'Diamonds', confidence: 0.95 },
+        { rank: 'J', suit: 'Clubs', confidence: 0.93 },
+        { rank: 'Q', suit: 'Hearts', confidence: 0.64, alternatives: [{ rank: 'Q', suit: 'Diamonds' }, { rank: 'K', suit: 'Hearts' }] },
+        { rank: 'K', suit: 'Spades', confidence: 0.97 },
+        { rank: 'Joker', suit: 'None', confidence: 0.9 }
+      ]
+    }
+  },
+  {
+    id: 'melds',
+    name: 'Sets and runs (10 cards)',
+    result: {
+      cards: [
+        { rank: '4', suit: 'Hearts' },
+        { rank: '5', suit: 'Hearts' },
+        { rank: '6', suit: 'Hearts' },
+        { rank: '9', suit: 'Clubs' },
+        { rank: '9', suit: 'Diamonds' },
+        { rank: '9', suit: 'Spades' },
+        { rank: 'K', suit: 'Clubs' },
+        { rank: '2', suit: 'Diamonds' },
+        { rank: '3', suit: 'Spades' },
+        { rank: 'Q', suit: 'Diamonds' }
+      ]
+    }
+  },
+  {
+    id: 'five-crowns',
+    name: 'Five Crowns (stars and wilds)',
+    result: {
+      cards: [
+        { rank: '3', suit: 'Stars' },
+        { rank: '8', suit: 'Stars' },
+        { rank: '9', suit: 'Stars' },
+        { rank: '10', suit: 'Stars' },
+        { rank: 'J', suit: 'Hearts', confidence: 0.7, alternatives: [{ rank: 'J', suit: 'Stars' }] },
+        { rank: 'Joker', suit: 'None' }
+      ]
+    }
+  },
+  {
+    id: 'whole-table',
+    name: 'Whole table (3 hands)',
+    manualOnly: true,
+    result: {
+      cards: [
+        // Near the camera
+        { rank: '7', suit: 'Clubs', box: { x: 0.35, y: 0.72, width: 0.1, height: 0.2 } },
+        { rank: '8', suit: 'Clubs', box: { x: 0.43, y: 0.72, width: 0.1, height: 0.2 } },
+        { rank: 'K', suit: 'Hearts', box: { x: 0.51, y: 0.72, width: 0.1, height: 0.2 } },
+        // Left
+        { rank: 'A', suit: 'Diamonds', box: { x: 0.04, y: 0.3, width: 0.1, height: 0.2 } },
+        { rank: '5', suit: 'Spades', confidence: 0.6, alternatives: [{ rank: '6', suit: 'Spades' }], box: { x: 0.04, y: 0.4, width: 0.1, height: 0.2 } },
+        // Right
+        { rank: 'Q', suit: 'Clubs', box: { x: 0.84, y: 0.25, width: 0.1, height: 0.2 } },
+        { rank: '2', suit: 'Hearts', box: { x: 0.84, y: 0.35, width: 0.1, height: 0.2 } },
+        { rank: 'Joker', suit: 'None', box: { x: 0.84, y: 0.45, width: 0.1, height: 0.2 } }
+      ]
+    }
+  },
+  {
+    id: 'empty',
+    name: 'No cards',
+    manualOnly: true,
+    result: { cards: [] }
+  }
+];
+
+// Small pause so the "Identifying cards..." state is still visible
+const MOCK_DELAY_MS = 400;
+
+// Same photo, same fixture: a simple string hash keeps results reproducible
+const hashImage = (base64Image: string): number => {
+  let hash = 0;
+  for (let i = 0; i < base64Image.length; i += 97) {
+    hash = (hash * 31 + base64Image.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+// Fixtures aren't tied to a real photo, so their cards are laid out as an evenly spaced fan
+const fanBox = (index: number, count: number): BoundingBox => {
+  const width = Math.min(0.3, 1.5 * 0.9 / count);
+  const step = count > 1 ? (0.9 - width) / (count - 1) : 0;
+  return { x: 0.05 + index * step, y: 0.3, width, height: 0.4 };
+};
+
+export const getMockFixture = (base64Image: string, fixtureId: string): MockFixture => {
+  const chosen = MOCK_FIXTURES.find(f => f.id === fixtureId);
+  if (chosen) return chosen;
+  const automatic = MOCK_FIXTURES.filter(f => !f.manualOnly);
+  return automatic[hashImage(base64Image) % automatic.length];
+};
+
+export const mockRecognizer: CardRecognizer = {
+  id: 'mock',
+  name: 'Local Mock',
+  runsOnDevice: true,
+  readsHeic: true,
+  isConfigured: () => true,
+  analyze: async (base64Image, settings) => {
+    await new Promise(resolve => setTimeout(resolve, MOCK_DELAY_MS));
+    const fixture = getMockFixture(base64Image, settings.mockFixtureId);
+    const cards = fixture.result.cards;
+    return {
+      cards: cards.map((card, i) => ({
+        ...card,
+        alternatives: card.alternatives?.map(alt => ({ ...alt })),
+        box: card.box ? { ...card.box } : fanBox(i, cards.length)
+      }))
+    };
+  }
+};
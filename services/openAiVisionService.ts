@@ -0,0 +1,66 @@
+import { CardRecognizer } from "./recognitionService";
+import { buildSystemPrompt, JSON_FORMAT_PROMPT, parseScanResult } from "./recognitionPrompt";
+import { RecognitionError, classifyHttpStatus } from "./recognitionErrors";
+
+// Works with any server speaking the OpenAI chat completions API with image input
+// (OpenAI itself, Azure, OpenRouter, or a local vision model behind Ollama or vLLM).
+export const openAiRecognizer: CardRecognizer = {
+  id: 'openai',
+  name: 'OpenAI-Compatible',
+  runsOnDevice: false,
+  readsHeic: false,
+  isConfigured: (settings) => !!settings.openAiEndpoint.trim() && !!settings.openAiModel.trim(),
+  analyze: async (base64Image, settings, deck, signal) => {
+    try {
+      const endpoint = settings.openAiEndpoint.trim().replace(/\/+$/, '');
+      if (!endpoint || !settings.openAiModel.trim()) {
+        throw new RecognitionError('missingKey', "Vision endpoint not configured");
+      }
+
+      const imageUrl = base64Image.startsWith('data:') ? base64Image : `data:image/jpeg;base64,${base64Image}`;
+
+      const response = await fetch(`${endpoint}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          // Local servers often run without a key
+          ...(settings.openAiApiKey ? { Authorization: `Bearer ${settings.openAiApiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: settings.openAiModel.trim(),
+          temperature: 0.1,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: buildSystemPrompt(deck) + JSON_FORMAT_PROMPT },
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: 'List every card in this photo.' },
+                { type: 'image_url', image_url: { url: imageUrl } }
+              ]
+            }
+          ]
+        })
+      });
+
+      if (!response.ok) {
+        // The body usually says why (e.g. "insufficient_quota"), which tells a quota from a rate limit
+        const detail = await response.text().catch(() => '');
+        throw new RecognitionError(classifyHttpStatus(response.status, detail), `Vision endpoint returned ${response.status}`);
+      }
+
+      const data = await response.json();
+      const text: string | undefined = data?.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new RecognitionError('empty', "No response from AI");
+      }
+
+      return parseScanResult(text);
+
+    } catch (error) {
+      console.error("Vision Endpoint Error:", error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,61 @@
+import { BoundingBox } from "../types";
+
+// Crop, rotation and masks the player applies to a photo before it is read. Kept apart from
+// the photo itself so the original can be re-cropped and read again without a retake.
+
+export interface PhotoEdits {
+  quarterTurns: number;  // Clockwise quarter turns, 0-3
+  crop: BoundingBox;     // Fractions of the rotated photo
+  masks: BoundingBox[];  // Areas blanked out before reading, fractions of the rotated photo
+}
+
+export const FULL_FRAME: BoundingBox = { x: 0, y: 0, width: 1, height: 1 };
+
+export const DEFAULT_PHOTO_EDITS: PhotoEdits = { quarterTurns: 0, crop: FULL_FRAME, masks: [] };
+
+// Drags shorter than this (in either direction) are taps, not boxes
+export const MIN_EDIT_SIZE = 0.05;
+
+export const isUnedited = (edits: PhotoEdits) =>
+  edits.quarterTurns === 0 && edits.masks.length === 0
+  && edits.crop.x === 0 && edits.crop.y === 0 && edits.crop.width === 1 && edits.crop.height === 1;
+
+const clamp = (v: number) => Math.min(1, Math.max(0, v));
+
+// The box spanned by a drag from `a` to `b`, in whichever direction it went
+export const boxFromPoints = (a: { x: number; y: number }, b: { x: number; y: number }): BoundingBox => {
+  const x = clamp(Math.min(a.x, b.x));
+  const y = clamp(Math.min(a.y, b.y));
+  return { x, y, width: clamp(Math.max(a.x, b.x)) - x, height: clamp(Math.max(a.y, b.y)) - y };
+};
+
+// The same area after the photo turns a quarter clockwise: its left edge becomes the top
+export const rotateBoxClockwise = (box: BoundingBox): BoundingBox => ({
+  x: 1 - box.y - box.height,
+  y: box.x,
+  width: box.height,
+  height: box.width
+});
+
+// Turning keeps the crop and masks on the same part of the picture
+export const rotateEditsClockwise = (edits: PhotoEdits): PhotoEdits => ({
+  quarterTurns: (edits.quarterTurns + 1) % 4,
+  crop: rotateBoxClockwise(edits.crop),
+  masks: edits.masks.map(rotateBoxClockwise)
+});
+
+// Masks relative to the cropped area, dropping any that fall outside it
+export const masksWithinCrop = (edits: PhotoEdits): BoundingBox[] => edits.masks.flatMap(mask => {
+  const { crop } = edits;
+  const left = Math.max(mask.x, crop.x);
+  const top = Math.max(mask.y, crop.y);
+  const right = Math.min(mask.x + mask.width, crop.x + crop.width);
+  const bottom = Math.min(mask.y + mask.height, crop.y + crop.height);
+  if (right <= left || bottom <= top) return [];
+  return [{
+    x: (left - crop.x) / crop.width,
+    y: (top - crop.y) / crop.height,
+    width: (right - left) / crop.width,
+    height: (bottom - top) / crop.height
+  }];
+});
@@ -0,0 +1,128 @@
+import {
+  ImageMimeType, detectImageType, readExifOrientation, orientedSize, orientationTransform, fitWithin, enhancePhoto
+} from "./imagePreprocessing";
+import { PhotoEdits, isUnedited, masksWithinCrop } from "./photoEdits";
+
+export interface PhotoOptions {
+  maxSide: number;  // Longest side after downscaling, in pixels
+  enhance: boolean; // Contrast stretch and glare reduction
+}
+
+export interface PreparedPhoto {
+  dataUrl: string;
+  mimeType: ImageMimeType;
+}
+
+// Small enough to upload quickly, still well above what corner indices need
+const JPEG_QUALITY = 0.85;
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const decodeImage = async (blob: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    // Decoded images stay drawable after the URL is gone
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Current browsers turn images upright by their EXIF tag while decoding; rotating again would undo it
+const decoderAppliesOrientation = () =>
+  typeof CSS !== 'undefined' && !!CSS.supports && CSS.supports('image-orientation', 'from-image');
+
+// Small JPEG copy of an already prepared photo, for keeping with its round
+export const makeThumbnail = async (dataUrl: string, maxSide: number, quality: number): Promise<string> => {
+  const img = new Image();
+  img.src = dataUrl;
+  await img.decode();
+  const size = fitWithin(img.naturalWidth, img.naturalHeight, maxSide);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  canvas.getContext('2d')!.drawImage(img, 0, 0, size.width, size.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+// Rotates, crops and masks a prepared photo; masked areas are painted black so nothing there gets read
+export const applyPhotoEdits = async (dataUrl: string, edits: PhotoEdits): Promise<string> => {
+  if (isUnedited(edits)) return dataUrl;
+  const img = new Image();
+  img.src = dataUrl;
+  await img.decode();
+
+  const turned = edits.quarterTurns % 2 === 1;
+  const rotatedWidth = turned ? img.naturalHeight : img.naturalWidth;
+  const rotatedHeight = turned ? img.naturalWidth : img.naturalHeight;
+  const crop = {
+    x: Math.round(edits.crop.x * rotatedWidth),
+    y: Math.round(edits.crop.y * rotatedHeight),
+    width: Math.max(1, Math.round(edits.crop.width * rotatedWidth)),
+    height: Math.max(1, Math.round(edits.crop.height * rotatedHeight))
+  };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = crop.width;
+  canvas.height = crop.height;
+  const ctx = canvas.getContext('2d')!;
+  // Draw the whole turned photo shifted so the crop lands on the canvas
+  ctx.translate(-crop.x, -crop.y);
+  ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
+  ctx.rotate(edits.quarterTurns * Math.PI / 2);
+  ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  ctx.fillStyle = '#000';
+  masksWithinCrop(edits).forEach(mask => {
+    ctx.fillRect(mask.x * crop.width, mask.y * crop.height, mask.width * crop.width, mask.height * crop.height);
+  });
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+};
+
+// Turns a camera frame or picked file into an upright, downscaled JPEG ready for any recognizer
+export const preparePhoto = async (photo: Blob, options: PhotoOptions): Promise<PreparedPhoto> => {
+  const bytes = new Uint8Array(await photo.arrayBuffer());
+  const type = detectImageType(bytes);
+
+  let img: HTMLImageElement;
+  try {
+    img = await decodeImage(photo);
+  } catch (error) {
+    // Only Safari decodes HEIC; elsewhere the photo goes out untouched, labelled as what it is,
+    // and analyzeHand turns it away from readers that can't take it
+    if (type === 'image/heic' || type === 'image/heif') {
+      return { dataUrl: await readAsDataUrl(new Blob([bytes], { type })), mimeType: type };
+    }
+    throw error;
+  }
+
+  const orientation = decoderAppliesOrientation() ? 1 : readExifOrientation(bytes);
+  const upright = orientedSize(img.naturalWidth, img.naturalHeight, orientation);
+  const target = fitWithin(upright.width, upright.height, options.maxSide);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = target.width;
+  canvas.height = target.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(target.width / upright.width, target.height / upright.height);
+  ctx.transform(...orientationTransform(orientation, img.naturalWidth, img.naturalHeight));
+  ctx.drawImage(img, 0, 0);
+
+  if (options.enhance) {
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    pixels.data.set(enhancePhoto(pixels.data));
+    ctx.putImageData(pixels, 0, 0);
+  }
+
+  // PNG screenshots and GIFs become JPEG too: no recognizer needs lossless cards
+  return { dataUrl: canvas.toDataURL('image/jpeg', JPEG_QUALITY), mimeType: 'image/jpeg' };
+};
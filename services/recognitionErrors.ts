@@ -0,0 +1,73 @@
+// Every way a scan can fail, so the UI can say what went wrong and what to do about it
+
+export type RecognitionErrorKind =
+  | 'missingKey'  // No API key or endpoint, or the service rejected it
+  | 'quota'       // The account's quota is used up; waiting won't help today
+  | 'rateLimit'   // Too many requests right now
+  | 'unavailable' // The service is overloaded or down
+  | 'network'
+  | 'timeout'
+  | 'malformed'   // The answer wasn't the JSON we asked for
+  | 'unsupportedImage' // A HEIC photo this browser couldn't convert, for a reader that needs JPEG
+  | 'empty'       // The service answered with nothing
+  | 'cancelled'   // The player left before the answer came back
+  | 'unknown';
+
+// Worth another attempt after a short wait
+const TRANSIENT_KINDS: RecognitionErrorKind[] = ['rateLimit', 'unavailable', 'network', 'timeout'];
+
+export class RecognitionError extends Error {
+  kind: RecognitionErrorKind;
+
+  constructor(kind: RecognitionErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'RecognitionError';
+    this.kind = kind;
+    if (cause !== undefined) (this as { cause?: unknown }).cause = cause;
+  }
+
+  get isTransient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+// Gemini and OpenAI-style servers both report an exhausted quota as a 429 mentioning it
+export const classifyHttpStatus = (status: number, detail = ''): RecognitionErrorKind => {
+  if (status === 401 || status === 403) return 'missingKey';
+  if (status === 429) return /quota|billing|insufficient/i.test(detail) ? 'quota' : 'rateLimit';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'unavailable';
+  return 'unknown';
+};
+
+// Maps whatever a backend threw (SDK errors, fetch failures, JSON errors) onto a RecognitionError
+export const toRecognitionError = (error: unknown): RecognitionError => {
+  if (error instanceof RecognitionError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof DOMException && error.name === 'AbortError') return new RecognitionError('cancelled', message, error);
+  if (error instanceof DOMException && error.name === 'TimeoutError') return new RecognitionError('timeout', message, error);
+  if (error instanceof SyntaxError) return new RecognitionError('malformed', message, error);
+  // The Gemini SDK's ApiError carries the HTTP status
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return new RecognitionError(classifyHttpStatus(status, message), message, error);
+  // fetch rejects with a TypeError when the request never got an answer
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return new RecognitionError('network', message, error);
+  return new RecognitionError('unknown', message, error);
+};
+
+// What the player sees, with what they can do about it
+export const describeRecognitionError = (error: RecognitionError): string => {
+  switch (error.kind) {
+    case 'missingKey': return "The card reader isn't set up: its API key or endpoint is missing or was rejected. Check the recognizer settings, or enter the cards by hand.";
+    case 'quota': return "The card reader's usage quota is used up. Switch to the on-device reader in settings, or enter the cards by hand.";
+    case 'rateLimit': return "The card reader is getting too many requests. Wait a minute and try again.";
+    case 'unavailable': return "The card reader service is down or overloaded. Try again in a moment, or enter the cards by hand.";
+    case 'network': return "Couldn't reach the card reader. Check your connection and try again.";
+    case 'timeout': return "The card reader took too long to answer. Try again, ideally with a sharper, closer photo.";
+    case 'malformed': return "The card reader gave an answer we couldn't understand. Try again.";
+    case 'unsupportedImage': return "This photo is in HEIC format, which this browser and card reader can't read. Convert it to JPEG (or set the camera to 'Most Compatible') and try again, or use the Gemini reader.";
+    case 'empty': return "The card reader didn't return anything. Try again with the cards clearly in view.";
+    case 'cancelled': return "The scan was cancelled.";
+    default: return "Could not identify cards. Please try again or enter manually.";
+  }
+};
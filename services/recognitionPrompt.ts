@@ -0,0 +1,115 @@
+import { BoundingBox, CardRank, CardReading, RecognizedCard, ScanResult, UnreadableCard } from "../types";
+import { normalizeCard } from "../utils/cardNormalization";
+import { DeckDefinition, getDeckRanks, getDeckSuits } from "../utils/deckDefinitions";
+import { RecognitionError } from "./recognitionErrors";
+
+// Shared by every model-backed recognizer so they all read cards the same way.
+// Built from the deck on the table, so the model only ever answers with cards that exist in it.
+export const buildSystemPrompt = (deck: DeckDefinition): string => {
+  const copies = (rank: CardRank) => deck.copiesByRank?.[rank] ?? deck.copies;
+  const regular = deck.ranks.map(rank => copies(rank) === deck.copies ? rank : `${rank} (${copies(rank)} of each)`);
+  const special = deck.specialCards.map(c =>
+    `- ${c.rank} (suit '${c.suit}', ${c.copies} in the deck)${c.hint ? `: ${c.hint}` : ''}`
+  );
+
+  return `
+    You are an expert card game assistant. Your task is to accurately identify and list every playing card visible in the provided image.
+
+    THE DECK (${deck.name}):
+    - Regular cards: ranks ${regular.join(', ')} in suits ${deck.suits.join(', ')}, ${deck.copies} of each.
+    ${special.join('\n    ')}
+    ${deck.hints.map(hint => `- ${hint}`).join('\n    ')}
+
+    STRATEGY:
+    1. Scan the image methodically (e.g., from top-left to bottom-right).
+    2. Pay close attention to **overlapping cards** or "fanned" hands. Look for visible indices (numbers/letters and suit symbols) in the corners even if the rest of the card is hidden.
+    3. Count the cards you see to ensure you don't miss any in a sequence.
+    4. If a card is partially obscured but identifiable, include it.
+
+    INSTRUCTIONS:
+    1. Return the Rank and Suit for each card. Only cards listed above exist in this deck:
+       anything else is a misreading, so look again rather than inventing a card.
+    2. Give a confidence between 0 and 1 for each card: 1 when the index is clearly readable,
+       lower when it is blurry, glared, cut off or mostly hidden.
+    3. When confidence is below 0.8, list up to 3 other readings the card could be (e.g. a 6 that might be a 9).
+    4. Give each card's bounding box as [ymin, xmin, ymax, xmax] scaled from 0 to 1000,
+       drawn around the visible part of that card (at least its corner index).
+
+    FORMAT:
+    - Rank: Use ${getDeckRanks(deck).map(r => `'${r}'`).join(', ')}.
+    - Suit: Use ${getDeckSuits(deck).map(s => `'${s}'`).join(', ')}.
+`;
+};
+
+// For endpoints without schema support: spell the expected JSON out in the prompt
+export const JSON_FORMAT_PROMPT = `
+    Respond with JSON only, in exactly this shape:
+    { "cards": [ { "rank": "10", "suit": "Hearts", "confidence": 0.95, "alternatives": [], "box": [120, 40, 480, 210] } ] }
+`;
+
+// Removes the data URL prefix, if present
+export const stripDataUrl = (base64Image: string): string =>
+  base64Image.replace(/^data:image\/[a-z0-9.+-]+;base64,/i, '');
+
+// The type the data URL declares; bare base64 is assumed to be JPEG
+export const getDataUrlMimeType = (base64Image: string): string =>
+  base64Image.match(/^data:(image\/[a-z0-9.+-]+);base64,/i)?.[1].toLowerCase() ?? 'image/jpeg';
+
+// A card as the model wrote it: rank and suit are all we can count on, the rest is checked field by field
+type RawCard = { rank: string; suit: string; box?: unknown; confidence?: unknown; alternatives?: unknown };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isReading = (value: unknown): value is RawCard =>
+  isObject(value) && typeof value.rank === 'string' && typeof value.suit === 'string';
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Models answer with [ymin, xmin, ymax, xmax] on a 0-1000 grid
+const toBoundingBox = (box: unknown): BoundingBox | null => {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every((v): v is number => typeof v === 'number')) return null;
+  const [ymin, xmin, ymax, xmax] = box.map(v => clamp01(v / 1000));
+  if (xmax <= xmin || ymax <= ymin) return null;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+// Keeps only well-formed cards, with confidence clamped to 0-1 and rank/suit made canonical.
+// Cards that can't be normalized come back as unreadable rather than being guessed at.
+const toRecognizedCard = (card: RawCard): RecognizedCard | UnreadableCard => {
+  const box = toBoundingBox(card.box);
+  const reading = normalizeCard(card);
+  if (!reading) {
+    return { text: `${card.rank} ${card.suit}`.trim(), ...(box ? { box } : {}) };
+  }
+  return {
+    ...reading,
+    ...(typeof card.confidence === 'number' ? { confidence: clamp01(card.confidence) } : {}),
+    ...(Array.isArray(card.alternatives)
+      ? { alternatives: card.alternatives.filter(isReading).map(normalizeCard).filter((alt): alt is CardReading => !!alt) }
+      : {}),
+    ...(box ? { box } : {})
+  };
+};
+
+export const parseScanResult = (text: string): ScanResult => {
+  // Some models wrap JSON in a markdown code fence
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new RecognitionError('malformed', "Response is not valid JSON", error);
+  }
+  if (!isObject(parsed) || !Array.isArray(parsed.cards)) {
+    throw new RecognitionError('malformed', "Response has no card list");
+  }
+  const cards: RecognizedCard[] = [];
+  const unreadable: UnreadableCard[] = [];
+  parsed.cards.filter(isReading).forEach(card => {
+    const reading = toRecognizedCard(card);
+    if ('text' in reading) unreadable.push(reading);
+    else cards.push(reading);
+  });
+  return unreadable.length > 0 ? { cards, unreadable } : { cards };
+};
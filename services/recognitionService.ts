@@ -0,0 +1,164 @@
+import { CardReading, RecognizedCard, RecognizerBackend, RecognizerSettings, ScanResult, UnreadableCard } from "../types";
+import { geminiRecognizer } from "./geminiService";
+import { openAiRecognizer } from "./openAiVisionService";
+import { mockRecognizer } from "./mockRecognizer";
+import { localRecognizer } from "./localRecognizer";
+import { DeckDefinition, fitToDeck } from "../utils/deckDefinitions";
+import { RecognitionError, toRecognitionError } from "./recognitionErrors";
+import { getDataUrlMimeType } from "./recognitionPrompt";
+
+// A backend that turns a photo of cards into a card list
+export interface CardRecognizer {
+  id: RecognizerBackend;
+  name: string;
+  runsOnDevice: boolean; // Works without a network connection
+  readsHeic: boolean;    // Takes HEIC/HEIF photos the browser couldn't decode and passed through as they are
+  isConfigured: (settings: RecognizerSettings) => boolean; // Has what it needs (API key, endpoint) to run
+  // Backends should stop when `signal` aborts; analyzeHand gives up on them either way
+  analyze: (base64Image: string, settings: RecognizerSettings, deck: DeckDefinition, signal?: AbortSignal) => Promise<ScanResult>;
+}
+
+// Readings below this are flagged for the player to check before saving
+export const LOW_CONFIDENCE = 0.8;
+
+export const isLowConfidence = (card: RecognizedCard): boolean =>
+  card.confidence !== undefined && card.confidence < LOW_CONFIDENCE;
+
+export const RECOGNIZERS: CardRecognizer[] = [geminiRecognizer, openAiRecognizer, localRecognizer, mockRecognizer];
+
+export const DEFAULT_RECOGNIZER_SETTINGS: RecognizerSettings = {
+  backend: 'gemini',
+  openAiEndpoint: 'https://api.openai.com/v1',
+  openAiModel: 'gpt-4o-mini',
+  openAiApiKey: '',
+  mockFixtureId: '',
+  maxImageSide: 1600,
+  enhancePhotos: false
+};
+
+const STORAGE_KEY = 'snapscore_recognizer';
+
+export const loadRecognizerSettings = (): RecognizerSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return { ...DEFAULT_RECOGNIZER_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+  } catch {
+    return DEFAULT_RECOGNIZER_SETTINGS;
+  }
+};
+
+export const saveRecognizerSettings = (settings: RecognizerSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getRecognizer = (backend: RecognizerBackend): CardRecognizer =>
+  RECOGNIZERS.find(r => r.id === backend) || geminiRecognizer;
+
+// The backend a scan will actually use: cloud backends hand over to the on-device one
+// when they can't run (offline, or no API key / endpoint)
+export const resolveRecognizer = (settings: RecognizerSettings): CardRecognizer => {
+  const chosen = getRecognizer(settings.backend);
+  if (chosen.runsOnDevice) return chosen;
+  return navigator.onLine && chosen.isConfigured(settings) ? chosen : localRecognizer;
+};
+
+// The chosen cloud backend can't run right now, so a scan would only get the on-device reading
+export const isUsingFallback = (settings: RecognizerSettings): boolean =>
+  resolveRecognizer(settings).id !== getRecognizer(settings.backend).id;
+
+// Transient failures (rate limits, network, timeouts) are retried with a doubling delay
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+// Gemini spends a while thinking over dense photos, so this is generous
+const ATTEMPT_TIMEOUT_MS = 45000;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new RecognitionError('cancelled', "Scan cancelled"));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// One try at the photo, ended by the caller's signal or the timeout, whichever comes first
+const attempt = async (
+  recognizer: CardRecognizer,
+  base64Image: string,
+  settings: RecognizerSettings,
+  deck: DeckDefinition,
+  signal?: AbortSignal
+): Promise<ScanResult> => {
+  if (signal?.aborted) throw new RecognitionError('cancelled', "Scan cancelled");
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, ATTEMPT_TIMEOUT_MS);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  // Not every backend listens to the signal, so the race makes sure it still ends the attempt
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(new RecognitionError('cancelled', "Scan cancelled")), { once: true });
+  });
+
+  try {
+    return await Promise.race([recognizer.analyze(base64Image, settings, deck, controller.signal), aborted]);
+  } catch (error) {
+    if (timedOut) throw new RecognitionError('timeout', `No answer after ${ATTEMPT_TIMEOUT_MS / 1000}s`, error);
+    if (signal?.aborted) throw new RecognitionError('cancelled', "Scan cancelled", error);
+    throw toRecognitionError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Whatever a backend returns, only cards the deck actually has are kept; the rest are reported unreadable
+const restrictToDeck = (result: ScanResult, deck: DeckDefinition): ScanResult => {
+  const cards: RecognizedCard[] = [];
+  const unreadable: UnreadableCard[] = [...(result.unreadable || [])];
+  result.cards.forEach(card => {
+    const fitted = fitToDeck(card, deck);
+    if (!fitted) {
+      unreadable.push({ text: `${card.rank} ${card.suit}`, ...(card.box ? { box: card.box } : {}) });
+      return;
+    }
+    const alternatives = card.alternatives
+      ?.map(alt => fitToDeck(alt, deck))
+      .filter((alt): alt is CardReading => !!alt);
+    cards.push({ ...card, ...fitted, ...(alternatives ? { alternatives } : {}) });
+  });
+  return { ...result, cards, ...(unreadable.length > 0 ? { unreadable } : {}) };
+};
+
+// Entry point for scanning: runs the photo through whichever backend this device has chosen.
+// Failures always come out as a RecognitionError; aborting `signal` ends the scan as 'cancelled'.
+export const analyzeHand = async (
+  base64Image: string,
+  deck: DeckDefinition,
+  signal?: AbortSignal,
+  settings: RecognizerSettings = loadRecognizerSettings()
+): Promise<ScanResult> => {
+  const recognizer = resolveRecognizer(settings);
+  const mimeType = getDataUrlMimeType(base64Image);
+  if ((mimeType === 'image/heic' || mimeType === 'image/heif') && !recognizer.readsHeic) {
+    throw new RecognitionError('unsupportedImage', `${recognizer.name} can't read ${mimeType}`);
+  }
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    try {
+      // No cards is a reading too (a player who went out); the player confirms it before it's saved
+      const result = await attempt(recognizer, base64Image, settings, deck, signal);
+      return { ...restrictToDeck(result, deck), recognizer: recognizer.id };
+    } catch (error) {
+      const failure = toRecognitionError(error);
+      if (!failure.isTransient || attemptNumber >= MAX_ATTEMPTS) throw failure;
+      console.warn(`Scan attempt ${attemptNumber} failed (${failure.kind}), retrying`, failure);
+      await wait(RETRY_DELAY_MS * 2 ** (attemptNumber - 1), signal);
+    }
+  }
+};
@@ -0,0 +1,102 @@
+import { Player, PhotoRetention } from "../types";
+import { v4 as uuidv4 } from "uuid";
+import { getAllRecords, getRecord, putRecord, deleteRecord } from "./localDb";
+import { makeThumbnail } from "./photoPipeline";
+
+// Thumbnails of scanned hands, so a disputed round can be checked against the photo.
+// They live only on the device that took them; rounds just carry the id.
+
+export interface ScanPhoto {
+  id: string;
+  image: string; // JPEG data URL
+  bytes: number;
+  createdAt: number;
+}
+
+// Enough to read corner indices when zoomed, small enough to keep hundreds
+const THUMBNAIL_SIDE = 800;
+const THUMBNAIL_QUALITY = 0.6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_PHOTO_RETENTION: PhotoRetention = {
+  keepPhotos: true,
+  maxAgeDays: 30,
+  maxPhotos: 200
+};
+
+const STORAGE_KEY = 'snapscore_photos';
+
+export const loadPhotoRetention = (): PhotoRetention => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return { ...DEFAULT_PHOTO_RETENTION, ...(stored ? JSON.parse(stored) : {}) };
+  } catch {
+    return DEFAULT_PHOTO_RETENTION;
+  }
+};
+
+export const savePhotoRetention = (retention: PhotoRetention) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(retention));
+};
+
+// Base64 carries 3 bytes in every 4 characters
+const dataUrlBytes = (dataUrl: string) => Math.round((dataUrl.length - dataUrl.indexOf(',') - 1) * 0.75);
+
+export const getScanPhoto = (id: string): Promise<ScanPhoto | undefined> => getRecord<ScanPhoto>('scanPhotos', id);
+
+export const deleteScanPhoto = (id: string): Promise<void> => deleteRecord('scanPhotos', id);
+
+// Drops photos past the age limit, then the oldest ones beyond the count limit
+export const applyPhotoRetention = async (retention: PhotoRetention = loadPhotoRetention()): Promise<void> => {
+  const photos = (await getAllRecords<ScanPhoto>('scanPhotos')).sort((a, b) => b.createdAt - a.createdAt);
+  const cutoff = retention.maxAgeDays > 0 ? Date.now() - retention.maxAgeDays * DAY_MS : 0;
+  const expired = photos.filter((photo, i) => photo.createdAt < cutoff || (retention.maxPhotos > 0 && i >= retention.maxPhotos));
+  await Promise.all(expired.map(photo => deleteScanPhoto(photo.id)));
+};
+
+// Stores a thumbnail of the photo and returns its id, or undefined when photos aren't kept
+// (or can't be: a HEIC the browser can't decode, storage full). A round never fails over its photo.
+export const saveScanPhoto = async (image: string): Promise<string | undefined> => {
+  const retention = loadPhotoRetention();
+  if (!retention.keepPhotos) return undefined;
+  try {
+    const thumbnail = await makeThumbnail(image, THUMBNAIL_SIDE, THUMBNAIL_QUALITY);
+    const photo: ScanPhoto = { id: uuidv4(), image: thumbnail, bytes: dataUrlBytes(thumbnail), createdAt: Date.now() };
+    await putRecord('scanPhotos', photo);
+    await applyPhotoRetention(retention);
+    return photo.id;
+  } catch (e) {
+    console.error("Failed to keep scan photo", e);
+    return undefined;
+  }
+};
+
+// Deletes a photo once the round it belonged to was replaced, unless another round still shows it
+// (a table scan shares one photo between every player's round)
+export const releaseScanPhoto = async (photoId: string, players: Player[], replacedRoundId: string): Promise<void> => {
+  const stillUsed = players.some(p => p.rounds.some(r => r.id !== replacedRoundId && r.type === 'scan' && r.photoId === photoId));
+  if (!stillUsed) await deleteScanPhoto(photoId);
+};
+
+export interface PhotoStorageUsage {
+  count: number;
+  bytes: number;         // Taken by scan photos
+  deviceUsage?: number;  // Everything this app stores, when the browser says
+  deviceQuota?: number;
+}
+
+export const getPhotoStorageUsage = async (): Promise<PhotoStorageUsage> => {
+  const photos = await getAllRecords<ScanPhoto>('scanPhotos');
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  return {
+    count: photos.length,
+    bytes: photos.reduce((sum, photo) => sum + photo.bytes, 0),
+    deviceUsage: estimate?.usage,
+    deviceQuota: estimate?.quota
+  };
+};
+
+export const deleteAllScanPhotos = async (): Promise<void> => {
+  const photos = await getAllRecords<ScanPhoto>('scanPhotos');
+  await Promise.all(photos.map(photo => deleteScanPhoto(photo.id)));
+};
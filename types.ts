@@ -1,14 +1,29 @@
 
 
+// Canonical card values; anything a recognizer returns is mapped onto these (see utils/cardNormalization)
+export type CardRank =
+  | 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'Joker'
+  | '0' | '1' | '11' | '12' // Uno and Skip-Bo number cards
+  | 'Skip' | 'Reverse' | 'Draw Two' | 'Wild' | 'Wild Draw Four' // Uno action cards
+  | 'Skip-Bo';
+export type CardSuit = 'Spades' | 'Hearts' | 'Diamonds' | 'Clubs' | 'Stars' | 'Red' | 'Yellow' | 'Green' | 'Blue' | 'None';
+
 export interface DetectedCard {
-  rank: string; // '2'-'10', 'J', 'Q', 'K', 'A', 'Joker'
-  suit: string; // 'Spades', 'Hearts', 'Diamonds', 'Clubs', 'Stars', 'None'
+  rank: CardRank;
+  suit: CardSuit;
   id: string;   // Unique ID for React keys
 }
 
+export interface Meld {
+  type: 'set' | 'run';
+  cardIds: string[]; // IDs of the DetectedCards in this meld, wilds included
+}
+
+// ruleset: the scoring rules the round was entered under (missing on rounds from older versions)
 export type Round = 
-  | { type: 'manual'; id: string; score: number; timestamp: number }
-  | { type: 'scan'; id: string; cards: DetectedCard[]; timestamp: number };
+  | { type: 'manual'; id: string; score: number; bags?: number; timestamp: number; ruleset?: RoundRuleset } // bags: overtricks carried by a combined team round
+  | { type: 'scan'; id: string; cards: DetectedCard[]; melds?: Meld[]; photoId?: string; timestamp: number; ruleset?: RoundRuleset } // melds: confirmed split, only used when scoring deadwood; photoId: thumbnail on the scanning device
+  | { type: 'bid'; id: string; bid: number; tricks: number; timestamp: number; ruleset?: RoundRuleset }; // Trick-taking games; a bid of 0 is nil
 
 export interface Player {
   id: string;
@@ -17,38 +32,179 @@ export interface Player {
   rounds: Round[];
 }
 
+// Partnership: members enter their own rounds, but score and win together
+export interface Team {
+  id: string;
+  name: string;
+  playerIds: string[];
+}
+
+export type RankValues = Record<string, number>; // Keyed by rank: 'A', '2'-'10', 'J', 'Q', 'K', 'Joker'
+
+// A scoring rule for one rank, one suit, one color or one exact card.
+// Rules run in order after the rank table: 'set' replaces the value so far, 'add' adds to it.
+export interface CardRule {
+  id: string;
+  rank?: string;  // Any rank when omitted
+  suit?: string;  // Any suit when omitted
+  color?: 'red' | 'black'; // Ignored when a suit is given
+  mode: 'set' | 'add';
+  points: number;
+}
+
+export interface WildCardSettings {
+  rankByRound: string[]; // Wild rank for round 1, 2, ...; cycles past the end, so ['2'] means 2s are always wild
+  points: number;        // What a wild is worth in hand, replacing its other values
+}
+
+// House rule applied to a player's running total after each round, in list order
+export interface TotalRule {
+  id: string;
+  trigger: 'exactly' | 'atLeast' | 'above' | 'below';
+  value: number;
+  setTo: number; // e.g. exactly 50 -> 0, below 0 -> 0 (floor), atLeast 100 -> 50
+}
+
+// Formulas for bid-and-tricks rounds (Spades, Oh Hell, Wizard)
+export interface BidScoring {
+  enabled: boolean;           // Rounds are entered as a bid and tricks won
+  pointsPerBidTrick: number;  // A made bid scores bid x this
+  pointsPerOvertrick: number; // Each trick over the bid (a "bag")
+  exactBonus: number;         // Extra for taking exactly the bid
+  exactOnly: boolean;         // Overtricks miss the bid too (Oh Hell, Wizard)
+  missPerBidTrick: number;    // A missed bid loses bid x this...
+  missPerTrickOff: number;    // ...plus this for every trick over or under
+  nilPoints: number;          // Bid of 0 won or lost for this much; 0 scores nil like any other bid
+  bagLimit: number;           // Every bagLimit overtricks costs bagPenalty (0 = no bag penalty)
+  bagPenalty: number;
+}
+
+export type EndCondition =
+  | { type: 'none' }
+  | { type: 'targetScore'; target: number }      // Ends once anyone reaches or passes the target
+  | { type: 'roundLimit'; rounds: number }
+  | { type: 'elimination'; threshold: number };  // Players reaching the threshold are out; last one left wins
+
+// How the game's deck is put together from its deck definition
+export interface DeckComposition {
+  deckCount: number;  // Decks shuffled together
+  ranks?: CardRank[]; // Regular ranks in play; all of the deck's when unset
+  suits?: CardSuit[]; // Suits in play; all of the deck's when unset
+  jokers?: number;    // Jokers per deck; the deck's own number when unset
+}
+
 export interface CardSettings {
-  jokerValue: number;
-  aceValue: number;
-  faceCardBehavior: 'face' | 'fixed'; // 'face' means J=11, Q=12, K=13
-  fixedFaceValue?: number; // Used if faceCardBehavior is 'fixed'
-  numberCardBehavior: 'face' | 'fixed'; // 'face' means 2=2, 10=10
-  fixedNumberValue?: number; // Used if numberCardBehavior is 'fixed'
+  rankValues: RankValues;
+  cardRules: CardRule[];
+  wildCards: WildCardSettings;
+  handScoring: 'all' | 'deadwood'; // 'deadwood' only counts cards left out of sets and runs
+  totalRules: TotalRule[];
+  bidScoring: BidScoring;
   winningScoreType: 'lowest' | 'highest';
+  endCondition: EndCondition;
+  deckId: string; // Which deck is on the table (see utils/deckDefinitions); decides what scans can return
+  deckComposition: DeckComposition;
+  presetId?: string; // Set when the rules came from a built-in preset, cleared on manual edits
+  rulesetVersion: number; // Goes up whenever the per-round scoring rules change
 }
 
+// Snapshot of the settings that decide what one round is worth
+export type RoundRuleset = Pick<CardSettings, 'rulesetVersion' | 'rankValues' | 'cardRules' | 'wildCards' | 'handScoring' | 'bidScoring'>;
+
 export enum AppView {
   SETUP = 'SETUP',
   GAME = 'GAME',
   SETTINGS = 'SETTINGS',
   SCAN = 'SCAN',
+  TABLE_SCAN = 'TABLE_SCAN',
+}
+
+export type CardReading = Omit<DetectedCard, 'id'>;
+
+// Where a card sits in the photo, as fractions (0-1) of the image size from the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A card as the recognizer read it, before the player confirms the hand
+export interface RecognizedCard extends CardReading {
+  confidence?: number;          // 0-1; missing when the backend can't tell
+  alternatives?: CardReading[]; // Other plausible readings, most likely first
+  box?: BoundingBox;
 }
 
 export interface ScanResult {
-  cards: Omit<DetectedCard, 'id'>[]; // AI doesn't generate UUIDs, we add them later
+  cards: RecognizedCard[]; // AI doesn't generate UUIDs, we add them later
+  recognizer?: RecognizerBackend; // Which backend actually read the photo
+  unreadable?: UnreadableCard[]; // Readings that didn't map onto a known rank and suit
+}
+
+// What the recognizer said, verbatim, for a card that couldn't be normalized
+export interface UnreadableCard {
+  text: string;
+  box?: BoundingBox;
+}
+
+// A photo waiting to be read, kept on this device until the player confirms its round
+export interface PendingScan {
+  id: string;
+  playerId: string | null; // null for a photo of the whole table, split into hands once it's read
+  roundId?: string;     // Set when the photo rescans an existing round
+  roundNumber: number;  // 1-based round the photo was taken for; the round goes back into that slot
+  ruleset: RoundRuleset; // Rules of that round, so wilds and values match however late it is confirmed
+  image: string;        // Prepared photo as a data URL
+  capturedAt: number;
+  status: 'pending' | 'analyzing' | 'ready' | 'failed';
+  result?: ScanResult;  // Once read; it only counts after the player confirms it
+  error?: string;       // RecognitionErrorKind of the last failed attempt
+}
+
+// How long scan photos are kept on this device (stored per device, like the recognizer settings)
+export interface PhotoRetention {
+  keepPhotos: boolean; // Save a thumbnail with every scanned round
+  maxAgeDays: number;  // 0 = no age limit
+  maxPhotos: number;   // Oldest go first beyond this; 0 = no limit
+}
+
+// --- Card Recognition ---
+
+export type RecognizerBackend = 'gemini' | 'openai' | 'mock' | 'local';
+
+// Stored per device and never synced, so API keys stay on the phone doing the scanning
+export interface RecognizerSettings {
+  backend: RecognizerBackend;
+  openAiEndpoint: string; // Base URL of any OpenAI-compatible API, e.g. https://api.openai.com/v1
+  openAiModel: string;
+  openAiApiKey: string;
+  mockFixtureId: string;  // Empty: the mock picks a fixture from the photo itself
+  maxImageSide: number;   // Photos are downscaled to this many pixels on the longer side before reading
+  enhancePhotos: boolean; // Boost contrast and tame glare before reading
+}
+
+// Camera choices, remembered per device between scans
+export type CameraFacing = 'environment' | 'user';
+export type CameraResolution = '720p' | '1080p' | '4k';
+
+export interface CameraSettings {
+  facingMode: CameraFacing;
+  resolution: CameraResolution;
 }
 
 // --- P2P / Multiplayer Types ---
 
 export type GameState = {
   players: Player[];
+  teams: Team[];
   settings: CardSettings;
   view: AppView;
 };
 
 export type P2PMessage = 
   | { type: 'SYNC_STATE'; payload: GameState }
-  | { type: 'REQUEST_SAVE_ROUND'; payload: { playerId: string; round: Round } }
+  | { type: 'REQUEST_SAVE_ROUND'; payload: { playerId: string; round: Round; roundIndex?: number } } // roundIndex: slot for a new round, appended when missing
   | { type: 'REQUEST_RESET'; payload: null }
   | { type: 'REQUEST_SETTINGS_UPDATE'; payload: CardSettings }
   | { type: 'REQUEST_ADD_PLAYERS'; payload: Player[] }
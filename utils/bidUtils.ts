@@ -0,0 +1,70 @@
+import { BidScoring, Round } from '../types';
+
+type BidRound = Extract<Round, { type: 'bid' }>;
+
+// Spades numbers, switched off: card games never see them
+export const DEFAULT_BID_SCORING: BidScoring = {
+  enabled: false,
+  pointsPerBidTrick: 10,
+  pointsPerOvertrick: 1,
+  exactBonus: 0,
+  exactOnly: false,
+  missPerBidTrick: 10,
+  missPerTrickOff: 0,
+  nilPoints: 100,
+  bagLimit: 10,
+  bagPenalty: 100
+};
+
+const isNil = (round: BidRound, scoring: BidScoring) => round.bid === 0 && scoring.nilPoints !== 0;
+
+export const isBidMade = (round: BidRound, scoring: BidScoring): boolean => {
+  if (isNil(round, scoring)) return round.tricks === 0;
+  return scoring.exactOnly ? round.tricks === round.bid : round.tricks >= round.bid;
+};
+
+export const calculateBidScore = (round: BidRound, scoring: BidScoring): number => {
+  if (isNil(round, scoring)) return round.tricks === 0 ? scoring.nilPoints : -scoring.nilPoints;
+
+  const over = round.tricks - round.bid;
+  if (isBidMade(round, scoring)) {
+    return round.bid * scoring.pointsPerBidTrick
+      + over * scoring.pointsPerOvertrick
+      + (over === 0 ? scoring.exactBonus : 0);
+  }
+  return -(round.bid * scoring.missPerBidTrick + Math.abs(over) * scoring.missPerTrickOff);
+};
+
+// Overtricks that count toward the bag penalty
+export const getRoundBags = (round: Round, scoring: BidScoring): number => {
+  if (round.type === 'manual') return round.bags ?? 0;
+  if (round.type !== 'bid' || isNil(round, scoring) || !isBidMade(round, scoring)) return 0;
+  return round.tricks - round.bid;
+};
+
+// Partners bid as one: their bids and tricks are added up and scored once as the team's contract.
+// A nil bid still wins or loses on its own, and its tricks don't help the partner's bid.
+export const scorePartnershipRound = (rounds: BidRound[], scoring: BidScoring): { score: number; bags: number } => {
+  const nilScore = rounds
+    .filter(r => isNil(r, scoring))
+    .reduce((sum, r) => sum + calculateBidScore(r, scoring), 0);
+  const bidders = rounds.filter(r => !isNil(r, scoring));
+  if (bidders.length === 0) return { score: nilScore, bags: 0 };
+
+  const contract: BidRound = {
+    ...bidders[0],
+    bid: bidders.reduce((sum, r) => sum + r.bid, 0),
+    tricks: bidders.reduce((sum, r) => sum + r.tricks, 0)
+  };
+  return { score: nilScore + calculateBidScore(contract, scoring), bags: getRoundBags(contract, scoring) };
+};
+
+export const describeBidScoring = (scoring: BidScoring): string => {
+  if (!scoring.enabled) return 'Off';
+  const parts = [`${scoring.pointsPerBidTrick}/trick bid`];
+  if (scoring.exactOnly) parts.push('exact only');
+  if (scoring.exactBonus) parts.push(`exact +${scoring.exactBonus}`);
+  if (scoring.nilPoints) parts.push(`nil ±${scoring.nilPoints}`);
+  if (scoring.bagLimit > 0) parts.push(`${scoring.bagLimit} bags -${scoring.bagPenalty}`);
+  return parts.join(', ');
+};
@@ -0,0 +1,94 @@
+import { CardRank, CardReading, CardSuit } from '../types';
+
+// Recognizers answer in all sorts of ways ("Ten", "T", "10 of hearts", "♥"). Everything
+// is mapped onto CardRank / CardSuit here, and anything that can't be mapped is reported
+// instead of being guessed at.
+
+// The standard deck, in the order the settings grid lists it; other decks are in deckDefinitions
+export const CARD_RANKS: CardRank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'Joker'];
+export const CARD_SUITS: CardSuit[] = ['Spades', 'Hearts', 'Diamonds', 'Clubs', 'Stars', 'None'];
+
+// Cards that never have a suit, whatever color they're printed in
+const SUITLESS_RANKS: CardRank[] = ['Joker', 'Wild', 'Wild Draw Four', 'Skip-Bo'];
+
+const RANK_WORDS: Record<string, CardRank> = {
+  A: 'A', ACE: 'A', ACES: 'A',
+  ZERO: '0', ONE: '1', ELEVEN: '11', TWELVE: '12',
+  TWO: '2', THREE: '3', FOUR: '4', FIVE: '5', SIX: '6', SEVEN: '7', EIGHT: '8', NINE: '9',
+  T: '10', TEN: '10',
+  J: 'J', JACK: 'J', KNAVE: 'J',
+  Q: 'Q', QUEEN: 'Q',
+  K: 'K', KING: 'K',
+  JOKER: 'Joker', JKR: 'Joker', JOKERS: 'Joker',
+  SKIP: 'Skip', REVERSE: 'Reverse',
+  'DRAW TWO': 'Draw Two', 'DRAW 2': 'Draw Two', '+2': 'Draw Two',
+  WILD: 'Wild', 'WILD DRAW FOUR': 'Wild Draw Four', 'WILD DRAW 4': 'Wild Draw Four', 'WILD +4': 'Wild Draw Four', '+4': 'Wild Draw Four',
+  'SKIP BO': 'Skip-Bo', SKIPBO: 'Skip-Bo'
+};
+
+const SUIT_WORDS: Record<string, CardSuit> = {
+  S: 'Spades', SPADE: 'Spades', SPADES: 'Spades', '♠': 'Spades', '♤': 'Spades',
+  H: 'Hearts', HEART: 'Hearts', HEARTS: 'Hearts', '♥': 'Hearts', '♡': 'Hearts', '❤': 'Hearts',
+  D: 'Diamonds', DIAMOND: 'Diamonds', DIAMONDS: 'Diamonds', '♦': 'Diamonds', '♢': 'Diamonds',
+  C: 'Clubs', CLUB: 'Clubs', CLUBS: 'Clubs', '♣': 'Clubs', '♧': 'Clubs',
+  STAR: 'Stars', STARS: 'Stars', '★': 'Stars', '☆': 'Stars',
+  RED: 'Red', YELLOW: 'Yellow', GREEN: 'Green', BLUE: 'Blue',
+  NONE: 'None'
+};
+
+// Upper case, emoji variation selectors dropped, punctuation (but the + of "+2") turned into spaces
+const clean = (value: string) => value
+  .replace(/[\uFE0E\uFE0F]/g, '')
+  .toUpperCase()
+  .replace(/[^A-Z0-9+♠♤♥♡❤♦♢♣♧★☆]+/g, ' ')
+  .trim();
+
+export const normalizeRank = (value: string): CardRank | null => {
+  const text = clean(value);
+  if (RANK_WORDS[text]) return RANK_WORDS[text];
+  if (/^\d+$/.test(text)) {
+    const num = parseInt(text, 10);
+    return num <= 12 ? String(num) as CardRank : null;
+  }
+  return null;
+};
+
+export const normalizeSuit = (value: string): CardSuit | null => {
+  const text = clean(value);
+  return SUIT_WORDS[text] ?? null;
+};
+
+// Splits a whole card written as one string: "10 of hearts", "Queen Spades", "10♥", "♥10", "QS", "Red Draw Two"
+const parseCardText = (value: string): CardReading | null => {
+  const text = clean(value).replace(/([♠♤♥♡❤♦♢♣♧★☆])/g, ' $1 ').replace(/\bOF\b/g, ' ').trim();
+  const words = text.split(/\s+/).filter(Boolean);
+
+  if (words.length === 1) {
+    const word = words[0];
+    const rank = normalizeRank(word);
+    if (rank && SUITLESS_RANKS.includes(rank)) return { rank, suit: 'None' };
+    // Short codes like "QS" or "10H": everything but the last letter is the rank
+    const suit = normalizeSuit(word.slice(-1));
+    const codeRank = word.length > 1 ? normalizeRank(word.slice(0, -1)) : null;
+    return codeRank && suit && suit !== 'None' ? { rank: codeRank, suit } : null;
+  }
+
+  // Suits are single words; whatever is left over is the rank ("DRAW TWO" stays together)
+  const suits = words.map(normalizeSuit).filter((s): s is CardSuit => !!s);
+  const rank = normalizeRank(words.filter(w => !normalizeSuit(w)).join(' '));
+  if (!rank) return null;
+  if (SUITLESS_RANKS.includes(rank)) return { rank, suit: 'None' };
+  return suits.length === 1 ? { rank, suit: suits[0] } : null;
+};
+
+// The canonical card for a raw reading, or null when it can't be read with certainty.
+// Rank and suit may arrive separately or squashed together in either field.
+export const normalizeCard = (reading: { rank: string; suit: string }): CardReading | null => {
+  const rank = normalizeRank(reading.rank);
+  const suit = normalizeSuit(reading.suit);
+  // Jokers and wilds have no suit, whatever the model says
+  if (rank && SUITLESS_RANKS.includes(rank)) return { rank, suit: 'None' };
+  if (rank && suit) return { rank, suit };
+
+  return parseCardText(`${reading.rank} ${reading.suit}`);
+};
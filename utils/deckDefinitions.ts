@@ -0,0 +1,154 @@
+import { CardRank, CardReading, CardSettings, CardSuit, DeckComposition, RankValues } from '../types';
+
+// A card outside the regular rank x suit grid (jokers, wilds)
+export interface SpecialCard {
+  rank: CardRank;
+  suit: CardSuit;
+  copies: number;
+  hint?: string; // How to spot it, for the recognizer
+}
+
+export interface DeckDefinition {
+  id: string;
+  name: string;
+  ranks: CardRank[]; // Regular ranks, each printed in every suit
+  suits: CardSuit[];
+  copies: number; // Copies of each regular rank and suit combination
+  copiesByRank?: Partial<Record<CardRank, number>>; // Exceptions to `copies`
+  specialCards: SpecialCard[];
+  hints: string[]; // Anything else a recognizer should know about the artwork
+  rankValues: RankValues; // Starting card values where the game doesn't use the standard table's
+}
+
+const STANDARD_RANKS: CardRank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+const FRENCH_SUITS: CardSuit[] = ['Spades', 'Hearts', 'Diamonds', 'Clubs'];
+
+// Decks are plain data: recognizing a new game's cards only needs a new entry here
+export const DECKS: DeckDefinition[] = [
+  {
+    id: 'standard',
+    name: 'Standard 52 + Jokers',
+    ranks: STANDARD_RANKS,
+    suits: FRENCH_SUITS,
+    copies: 1,
+    specialCards: [{ rank: 'Joker', suit: 'None', copies: 2, hint: "Labelled JOKER, often with a jester and no suit" }],
+    hints: [],
+    rankValues: {}
+  },
+  {
+    id: 'five-crowns',
+    name: 'Five Crowns',
+    ranks: ['3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'],
+    suits: [...FRENCH_SUITS, 'Stars'],
+    copies: 2,
+    specialCards: [{ rank: 'Joker', suit: 'None', copies: 6, hint: "Cards with '$' or 'S' in the corner, or labelled JOKER" }],
+    hints: [
+      "There are five suits: the fifth is Stars, a five-pointed star.",
+      "Suits are told apart by symbol and color: Spades black, Hearts red, Diamonds blue, Clubs green, Stars yellow."
+    ],
+    rankValues: {}
+  },
+  {
+    id: 'uno',
+    name: 'Uno',
+    ranks: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', 'Skip', 'Reverse', 'Draw Two'],
+    suits: ['Red', 'Yellow', 'Green', 'Blue'],
+    copies: 2,
+    copiesByRank: { '0': 1 },
+    specialCards: [
+      { rank: 'Wild', suit: 'None', copies: 4, hint: "Black card with a four-colored oval and no number" },
+      { rank: 'Wild Draw Four', suit: 'None', copies: 4, hint: "Black wild card marked +4" }
+    ],
+    hints: [
+      "The suit is the card's color.",
+      "Skip shows a circle with a slash, Reverse shows two arrows, Draw Two is marked +2."
+    ],
+    rankValues: { '0': 0, '1': 1, Skip: 20, Reverse: 20, 'Draw Two': 20, Wild: 50, 'Wild Draw Four': 50 }
+  },
+  {
+    id: 'skip-bo',
+    name: 'Skip-Bo',
+    ranks: ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'],
+    suits: ['None'],
+    copies: 12,
+    specialCards: [{ rank: 'Skip-Bo', suit: 'None', copies: 18, hint: "Wild card with the SKIP-BO logo instead of a number" }],
+    hints: ["Cards have no suits; the number color only tells the range (1-4, 5-8, 9-12)."],
+    rankValues: { '1': 1, '11': 11, '12': 12, 'Skip-Bo': 0 }
+  },
+  {
+    id: 'phase-10',
+    name: 'Phase 10',
+    ranks: ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'],
+    suits: ['Red', 'Yellow', 'Green', 'Blue'],
+    copies: 2,
+    specialCards: [
+      { rank: 'Wild', suit: 'None', copies: 8, hint: "Card labelled WILD instead of a number" },
+      { rank: 'Skip', suit: 'None', copies: 4, hint: "Card labelled SKIP instead of a number, whatever its color" }
+    ],
+    hints: ["The suit is the color of the number."],
+    rankValues: {
+      '1': 5, '2': 5, '3': 5, '4': 5, '5': 5, '6': 5, '7': 5, '8': 5, '9': 5,
+      '10': 10, '11': 10, '12': 10, Skip: 15, Wild: 25
+    }
+  }
+];
+
+export const getDeck = (deckId?: string): DeckDefinition => DECKS.find(d => d.id === deckId) || DECKS[0];
+
+// The deck as a game plays it: stripped ranks and suits left out, every count multiplied by the number of decks
+export const composeDeck = (deck: DeckDefinition, composition: DeckComposition): DeckDefinition => {
+  const times = (copies: number) => copies * composition.deckCount;
+  return {
+    ...deck,
+    ranks: composition.ranks ? deck.ranks.filter(rank => composition.ranks!.includes(rank)) : deck.ranks,
+    suits: composition.suits ? deck.suits.filter(suit => composition.suits!.includes(suit)) : deck.suits,
+    copies: times(deck.copies),
+    copiesByRank: deck.copiesByRank && Object.fromEntries(
+      Object.entries(deck.copiesByRank).map(([rank, copies]) => [rank, times(copies ?? deck.copies)])
+    ),
+    specialCards: deck.specialCards
+      .map(c => ({ ...c, copies: times(c.rank === 'Joker' ? composition.jokers ?? c.copies : c.copies) }))
+      .filter(c => c.copies > 0)
+  };
+};
+
+export const getGameDeck = (settings: Pick<CardSettings, 'deckId' | 'deckComposition'>): DeckDefinition =>
+  composeDeck(getDeck(settings.deckId), settings.deckComposition);
+
+// e.g. "2 × Standard 52 + Jokers, no Jokers"
+export const describeDeck = (settings: Pick<CardSettings, 'deckId' | 'deckComposition'>): string => {
+  const deck = getDeck(settings.deckId);
+  const { deckCount, ranks, suits, jokers } = settings.deckComposition;
+  const parts = [deckCount > 1 ? `${deckCount} × ${deck.name}` : deck.name];
+  const missingRanks = ranks ? deck.ranks.filter(rank => !ranks.includes(rank)) : [];
+  const missingSuits = suits ? deck.suits.filter(suit => !suits.includes(suit)) : [];
+  if (missingRanks.length > 0) parts.push(`without ${missingRanks.join(', ')}`);
+  if (missingSuits.length > 0) parts.push(`without ${missingSuits.join(', ')}`);
+  const deckJokers = deck.specialCards.find(c => c.rank === 'Joker');
+  if (deckJokers && jokers !== undefined && jokers !== deckJokers.copies) {
+    parts.push(jokers === 0 ? 'no Jokers' : `${jokers} Jokers per deck`);
+  }
+  return parts.join(', ');
+};
+
+// Every rank the deck has, regular ones first
+export const getDeckRanks = (deck: DeckDefinition): CardRank[] =>
+  [...deck.ranks, ...deck.specialCards.map(c => c.rank).filter(rank => !deck.ranks.includes(rank))];
+
+export const getDeckSuits = (deck: DeckDefinition): CardSuit[] =>
+  [...deck.suits, ...deck.specialCards.map(c => c.suit).filter(suit => !deck.suits.includes(suit))];
+
+export const getCopies = (deck: DeckDefinition, card: CardReading): number => {
+  const special = deck.specialCards.find(c => c.rank === card.rank);
+  if (special) return special.suit === card.suit ? special.copies : 0;
+  if (!deck.ranks.includes(card.rank) || !deck.suits.includes(card.suit)) return 0;
+  return deck.copiesByRank?.[card.rank] ?? deck.copies;
+};
+
+// The same card as it exists in this deck, or null if the deck has no such card.
+// Special cards have a fixed suit, so a "red joker" is just the joker.
+export const fitToDeck = (card: CardReading, deck: DeckDefinition): CardReading | null => {
+  const special = deck.specialCards.find(c => c.rank === card.rank);
+  if (special) return { rank: special.rank, suit: special.suit };
+  return getCopies(deck, card) > 0 ? card : null;
+};
@@ -0,0 +1,44 @@
+import { CardReading, DetectedCard, Player } from '../types';
+import { DeckDefinition, getCopies } from './deckDefinitions';
+import { formatCard } from './scoringUtils';
+
+// A card seen more often than the deck holds it (max 0: the deck doesn't have it at all)
+export interface OverCount {
+  card: CardReading;
+  count: number;
+  max: number;
+}
+
+export const findOverCounts = (cards: CardReading[], deck: DeckDefinition): OverCount[] => {
+  const counts = new Map<string, OverCount>();
+  cards.forEach(card => {
+    const key = `${card.rank}|${card.suit}`;
+    const entry = counts.get(key) || { card: { rank: card.rank, suit: card.suit }, count: 0, max: getCopies(deck, card) };
+    entry.count++;
+    counts.set(key, entry);
+  });
+  return [...counts.values()].filter(entry => entry.count > entry.max);
+};
+
+// Over-counts that only show up once the other players' hands are added.
+// Anything the hand gets wrong on its own is left to the hand check.
+export const findRoundOverCounts = (hand: CardReading[], otherHands: CardReading[], deck: DeckDefinition): OverCount[] => {
+  const inHand = new Set(findOverCounts(hand, deck).map(o => `${o.card.rank}|${o.card.suit}`));
+  const handKeys = new Set(hand.map(c => `${c.rank}|${c.suit}`));
+  return findOverCounts([...hand, ...otherHands], deck)
+    .filter(o => handKeys.has(`${o.card.rank}|${o.card.suit}`) && !inHand.has(`${o.card.rank}|${o.card.suit}`));
+};
+
+// Cards the other players were left with in the same round (1-based), from their scanned rounds
+export const getOtherHands = (players: Player[], playerId: string, roundNumber: number): DetectedCard[] =>
+  players
+    .filter(p => p.id !== playerId)
+    .flatMap(p => {
+      const round = p.rounds[roundNumber - 1];
+      return round?.type === 'scan' ? round.cards : [];
+    });
+
+export const describeOverCount = ({ card, count, max }: OverCount): string =>
+  max === 0
+    ? `${formatCard(card)} isn't in this deck`
+    : `${count} × ${formatCard(card)}, but the deck only has ${max}`;
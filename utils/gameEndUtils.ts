@@ -0,0 +1,94 @@
+import { CardSettings, Player, Team } from '../types';
+import { calculateRunningTotals } from './scoringUtils';
+import { getScoringSides, expandSideIds } from './teamUtils';
+
+export interface GameStatus {
+  isOver: boolean;
+  reason: 'targetScore' | 'roundLimit' | 'elimination' | null;
+  completedRounds: number;  // Rounds every player still in the game has a score for
+  leaderIds: string[];      // Best total right now, or the winners once the game is over
+  eliminatedIds: string[];  // Busted players, in the order they went out (a busted team takes all its members)
+}
+
+// Whether a total is past the elimination threshold, in the direction that loses
+const isBust = (total: number, threshold: number, settings: CardSettings) =>
+  settings.winningScoreType === 'highest' ? total <= threshold : total >= threshold;
+
+const bestTotals = (totals: { id: string; total: number }[], settings: CardSettings): string[] => {
+  if (totals.length === 0) return [];
+  const values = totals.map(t => t.total);
+  const best = settings.winningScoreType === 'highest' ? Math.max(...values) : Math.min(...values);
+  return totals.filter(t => t.total === best).map(t => t.id);
+};
+
+// Walks the game one complete round at a time, so end conditions trigger only once everybody
+// has played the round that crossed the line. Each "player" here is one side: a person or a combined team.
+const evaluateSides = (players: Player[], settings: CardSettings): GameStatus => {
+  const status: GameStatus = { isOver: false, reason: null, completedRounds: 0, leaderIds: [], eliminatedIds: [] };
+  if (players.length === 0) return status;
+
+  const end = settings.endCondition;
+  const eliminated = new Set<string>();
+  // Each side's running totals are walked once; the loop below only looks them up
+  const runningTotals = new Map(players.map(p => [p.id, calculateRunningTotals(p, settings).map(step => step.total)]));
+  const totalsAfter = (round: number, ids: string[]) =>
+    players.filter(p => ids.includes(p.id)).map(p => ({ id: p.id, total: runningTotals.get(p.id)![round - 1] }));
+
+  let active = players.map(p => p.id);
+  const maxRounds = Math.max(...players.map(p => p.rounds.length));
+
+  for (let round = 1; round <= maxRounds; round++) {
+    if (!players.filter(p => active.includes(p.id)).every(p => p.rounds.length >= round)) break;
+    status.completedRounds = round;
+    const totals = totalsAfter(round, active);
+
+    if (end.type === 'elimination') {
+      const busted = totals.filter(t => isBust(t.total, end.threshold, settings)).map(t => t.id);
+      if (busted.length > 0 && busted.length >= active.length) {
+        // Everybody left went out together: the best of them still wins
+        return { ...status, isOver: true, reason: 'elimination', leaderIds: bestTotals(totals, settings), eliminatedIds: [...status.eliminatedIds] };
+      }
+      busted.forEach(id => eliminated.add(id));
+      status.eliminatedIds.push(...busted);
+      active = active.filter(id => !eliminated.has(id));
+      if (active.length === 1 && players.length > 1) {
+        return { ...status, isOver: true, reason: 'elimination', leaderIds: active };
+      }
+    }
+
+    if (end.type === 'targetScore' && totals.some(t => t.total >= end.target)) {
+      return { ...status, isOver: true, reason: 'targetScore', leaderIds: bestTotals(totals, settings) };
+    }
+
+    if (end.type === 'roundLimit' && round >= end.rounds) {
+      return { ...status, isOver: true, reason: 'roundLimit', leaderIds: bestTotals(totals, settings) };
+    }
+  }
+
+  // Still playing: the leader is whoever is best on everything entered so far
+  if (players.every(p => p.rounds.length > 0)) {
+    status.leaderIds = bestTotals(
+      players.filter(p => active.includes(p.id)).map(p => ({ id: p.id, total: runningTotals.get(p.id)![p.rounds.length - 1] })),
+      settings
+    );
+  }
+  return status;
+};
+
+// Teams compete as one side; the status always lists player ids
+export const evaluateGame = (players: Player[], settings: CardSettings, teams: Team[] = []): GameStatus => {
+  const status = evaluateSides(getScoringSides(players, teams, settings), settings);
+  return {
+    ...status,
+    leaderIds: expandSideIds(status.leaderIds, players, teams),
+    eliminatedIds: expandSideIds(status.eliminatedIds, players, teams)
+  };
+};
+
+export const describeEndReason = (status: GameStatus, settings: CardSettings): string => {
+  const end = settings.endCondition;
+  if (status.reason === 'targetScore' && end.type === 'targetScore') return `Someone reached ${end.target} points.`;
+  if (status.reason === 'roundLimit' && end.type === 'roundLimit') return `All ${end.rounds} rounds played.`;
+  if (status.reason === 'elimination') return 'Last player standing.';
+  return '';
+};
@@ -0,0 +1,293 @@
+import { CardRule, CardSettings, EndCondition, RankValues } from '../types';
+import { RANKS, FACE_VALUES, describeCardRule, describeTotalRule } from './scoringUtils';
+import { DEFAULT_BID_SCORING, describeBidScoring } from './bidUtils';
+import { describeDeck, getDeck, getDeckRanks } from './deckDefinitions';
+
+export interface GamePreset {
+  id: string;
+  name: string;
+  description: string;
+  settings: Omit<CardSettings, 'presetId' | 'rulesetVersion'>;
+}
+
+export interface SettingChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+// Fills every rank not listed with the same value
+const rankTable = (values: RankValues, otherwise: number): RankValues =>
+  Object.fromEntries(RANKS.map(rank => [rank, values[rank] ?? otherwise]));
+
+// Presets are plain rulesets: applying one just replaces the settings object,
+// so a new game only needs a new entry here.
+export const GAME_PRESETS: GamePreset[] = [
+  {
+    id: 'five-crowns',
+    name: 'Five Crowns',
+    description: 'Only unmelded cards count: face value, Jokers 50, wilds (3s to Kings by round) 20. Lowest score wins.',
+    settings: {
+      rankValues: { ...FACE_VALUES, Joker: 50 },
+      cardRules: [],
+      wildCards: { rankByRound: ['3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'], points: 20 },
+      handScoring: 'deadwood',
+      totalRules: [],
+      bidScoring: DEFAULT_BID_SCORING,
+      winningScoreType: 'lowest',
+      endCondition: { type: 'roundLimit', rounds: 11 },
+      deckId: 'five-crowns',
+      deckComposition: { deckCount: 1 }
+    }
+  },
+  {
+    id: 'golf',
+    name: 'Golf',
+    description: 'Aces 1, 2s and Jokers -2, Kings 0, J/Q 10. Lowest score wins.',
+    settings: {
+      rankValues: { ...FACE_VALUES, '2': -2, J: 10, Q: 10, K: 0, Joker: -2 },
+      cardRules: [],
+      wildCards: { rankByRound: [], points: 0 },
+      handScoring: 'all',
+      totalRules: [],
+      bidScoring: DEFAULT_BID_SCORING,
+      winningScoreType: 'lowest',
+      endCondition: { type: 'roundLimit', rounds: 9 },
+      deckId: 'standard',
+      deckComposition: { deckCount: 2 }
+    }
+  },
+  {
+    id: 'rummy-500',
+    name: 'Rummy 500',
+    description: 'Aces 15, face cards 10, number cards at face value. Highest score wins.',
+    settings: {
+      rankValues: { ...FACE_VALUES, A: 15, J: 10, Q: 10, K: 10, Joker: 15 },
+      cardRules: [],
+      wildCards: { rankByRound: [], points: 0 },
+      handScoring: 'all',
+      totalRules: [],
+      bidScoring: DEFAULT_BID_SCORING,
+      winningScoreType: 'highest',
+      endCondition: { type: 'targetScore', target: 500 },
+      deckId: 'standard',
+      deckComposition: { deckCount: 1 }
+    }
+  },
+  {
+    id: 'gin-rummy',
+    name: 'Gin Rummy',
+    description: 'Only deadwood counts: Aces 1, face cards 10, others at face value. Lowest score wins.',
+    settings: {
+      rankValues: { ...FACE_VALUES, J: 10, Q: 10, K: 10 },
+      cardRules: [],
+      wildCards: { rankByRound: [], points: 0 },
+      handScoring: 'deadwood',
+      totalRules: [],
+      bidScoring: DEFAULT_BID_SCORING,
+      winningScoreType: 'lowest',
+      endCondition: { type: 'targetScore', target: 100 },
+      deckId: 'standard',
+      deckComposition: { deckCount: 1, jokers: 0 }
+    }
+  },
+  {
+    id: 'hand-and-foot',
+    name: 'Hand and Foot',
+    description: 'Jokers 50, Aces and 2s 20, 8-K 10, 4-7 and black 3s 5, red 3s 100. Highest score wins.',
+    settings: {
+      rankValues: rankTable({ A: 20, '2': 20, '3': 5, '4': 5, '5': 5, '6': 5, '7': 5, Joker: 50 }, 10),
+      cardRules: [{ id: 'hand-and-foot-red-3s', rank: '3', color: 'red', mode: 'set', points: 100 }],
+      wildCards: { rankByRound: ['2'], points: 20 },
+      handScoring: 'all',
+      totalRules: [],
+      bidScoring: DEFAULT_BID_SCORING,
+      winningScoreType: 'highest',
+      endCondition: { type: 'roundLimit', rounds: 4 },
+      deckId: 'standard',
+      deckComposition: { deckCount: 5 }
+    }
+  },
+  {
+    id: 'phase-10',
+    name: 'Phase 10',
+    description: '1-9 5, 10-12 10, Skips 15, Wilds 25. Lowest score wins.',
+    settings: {
+      rankValues: { ...getDeck('phase-10').rankValues },
+      cardRules: [],
+      wildCards: { rankByRound: [], points: 0 },
+      handScoring: 'all',
+      totalRules: [],
+      bidScoring: DEFAULT_BID_SCORING,
+      winningScoreType: 'lowest',
+      endCondition: { type: 'none' },
+      deckId: 'phase-10',
+      deckComposition: { deckCount: 1 }
+    }
+  },
+  {
+    id: 'hearts',
+    name: 'Hearts',
+    description: 'Each heart 1, Queen of Spades 13. Lowest score wins.',
+    settings: {
+      rankValues: rankTable({}, 0),
+      cardRules: [
+        { id: 'hearts-each-heart', suit: 'Hearts', mode: 'set', points: 1 },
+        { id: 'hearts-queen-of-spades', rank: 'Q', suit: 'Spades', mode: 'set', points: 13 }
+      ],
+      wildCards: { rankByRound: [], points: 0 },
+      handScoring: 'all',
+      totalRules: [],
+      bidScoring: DEFAULT_BID_SCORING,
+      winningScoreType: 'lowest',
+      endCondition: { type: 'targetScore', target: 100 },
+      deckId: 'standard',
+      deckComposition: { deckCount: 1, jokers: 0 }
+    }
+  },
+  {
+    id: 'crazy-eights',
+    name: 'Crazy Eights',
+    description: 'Eights 50, face cards 10, Aces 1, others at face value. Lowest score wins.',
+    settings: {
+      rankValues: { ...FACE_VALUES, '8': 50, J: 10, Q: 10, K: 10, Joker: 50 },
+      cardRules: [],
+      wildCards: { rankByRound: [], points: 0 },
+      handScoring: 'all',
+      totalRules: [],
+      bidScoring: DEFAULT_BID_SCORING,
+      winningScoreType: 'lowest',
+      endCondition: { type: 'targetScore', target: 100 },
+      deckId: 'standard',
+      deckComposition: { deckCount: 1 }
+    }
+  },
+  {
+    id: 'canasta',
+    name: 'Canasta',
+    description: 'Jokers 50, Aces and 2s 20, 8-K 10, 4-7 and black 3s 5, red 3s 100. Highest score wins.',
+    settings: {
+      rankValues: rankTable({ A: 20, '2': 20, '3': 5, '4': 5, '5': 5, '6': 5, '7': 5, Joker: 50 }, 10),
+      cardRules: [{ id: 'canasta-red-3s', rank: '3', color: 'red', mode: 'set', points: 100 }],
+      wildCards: { rankByRound: ['2'], points: 20 },
+      handScoring: 'all',
+      totalRules: [],
+      bidScoring: DEFAULT_BID_SCORING,
+      winningScoreType: 'highest',
+      endCondition: { type: 'targetScore', target: 5000 },
+      deckId: 'standard',
+      deckComposition: { deckCount: 2 }
+    }
+  },
+  {
+    id: 'spades',
+    name: 'Spades',
+    description: '10 per trick bid, 1 per overtrick, every 10 bags -100, nil ±100. Set bids lose 10 per trick bid. First to 500 wins.',
+    settings: {
+      rankValues: { ...FACE_VALUES },
+      cardRules: [],
+      wildCards: { rankByRound: [], points: 0 },
+      handScoring: 'all',
+      totalRules: [],
+      bidScoring: { ...DEFAULT_BID_SCORING, enabled: true },
+      winningScoreType: 'highest',
+      endCondition: { type: 'targetScore', target: 500 },
+      deckId: 'standard',
+      deckComposition: { deckCount: 1, jokers: 0 }
+    }
+  },
+  {
+    id: 'oh-hell',
+    name: 'Oh Hell',
+    description: 'Take exactly your bid for 10 plus 1 per trick; anything else scores nothing. Highest score wins.',
+    settings: {
+      rankValues: { ...FACE_VALUES },
+      cardRules: [],
+      wildCards: { rankByRound: [], points: 0 },
+      handScoring: 'all',
+      totalRules: [],
+      bidScoring: {
+        enabled: true, pointsPerBidTrick: 1, pointsPerOvertrick: 0, exactBonus: 10, exactOnly: true,
+        missPerBidTrick: 0, missPerTrickOff: 0, nilPoints: 0, bagLimit: 0, bagPenalty: 0
+      },
+      winningScoreType: 'highest',
+      endCondition: { type: 'none' },
+      deckId: 'standard',
+      deckComposition: { deckCount: 1, jokers: 0 }
+    }
+  },
+  {
+    id: 'wizard',
+    name: 'Wizard',
+    description: 'Exact bids score 20 plus 10 per trick; misses lose 10 per trick off. Highest score wins.',
+    settings: {
+      rankValues: { ...FACE_VALUES },
+      cardRules: [],
+      wildCards: { rankByRound: [], points: 0 },
+      handScoring: 'all',
+      totalRules: [],
+      bidScoring: {
+        enabled: true, pointsPerBidTrick: 10, pointsPerOvertrick: 0, exactBonus: 20, exactOnly: true,
+        missPerBidTrick: 0, missPerTrickOff: 10, nilPoints: 0, bagLimit: 0, bagPenalty: 0
+      },
+      winningScoreType: 'highest',
+      endCondition: { type: 'none' },
+      deckId: 'standard',
+      deckComposition: { deckCount: 1, jokers: 0 }
+    }
+  }
+];
+
+export const getPreset = (presetId?: string): GamePreset | undefined => {
+  return GAME_PRESETS.find(p => p.id === presetId);
+};
+
+// The game state assigns the real ruleset version when the rules are applied
+export const applyPreset = (preset: GamePreset): CardSettings => {
+  return { ...preset.settings, presetId: preset.id, rulesetVersion: 1 };
+};
+
+const describeRule = (rule: CardRule) =>
+  `${describeCardRule(rule)} ${rule.mode === 'add' ? '+' : '='}${rule.points}`;
+
+const describeWilds = (settings: CardSettings) => {
+  const ranks = settings.wildCards.rankByRound;
+  if (ranks.length === 0) return 'None';
+  const which = ranks.length === 1 ? `${ranks[0]}s` : `${ranks[0]}s to ${ranks[ranks.length - 1]}s by round`;
+  return `${which} (${settings.wildCards.points})`;
+};
+
+export const describeEndCondition = (end: EndCondition) => {
+  if (end.type === 'targetScore') return `At ${end.target} points`;
+  if (end.type === 'roundLimit') return `After ${end.rounds} rounds`;
+  if (end.type === 'elimination') return `Eliminated at ${end.threshold}`;
+  return 'Never';
+};
+
+const describeWinner = (settings: CardSettings) =>
+  settings.winningScoreType === 'highest' ? 'Highest score' : 'Lowest score';
+
+// Human readable summary of everything that scores, in the order SettingsView shows it
+const settingDescriptors = (ranks: string[]): { label: string; describe: (settings: CardSettings) => string }[] => [
+  { label: 'Winner', describe: describeWinner },
+  ...ranks.map(rank => ({
+    label: rank,
+    describe: (s: CardSettings) => `${s.rankValues[rank] ?? 0}`
+  })),
+  { label: 'Wild cards', describe: describeWilds },
+  { label: 'Bids & tricks', describe: s => describeBidScoring(s.bidScoring) },
+  { label: 'Deck', describe: describeDeck },
+  { label: 'Hand scoring', describe: s => s.handScoring === 'deadwood' ? 'Deadwood only' : 'All cards' },
+  { label: 'Game ends', describe: s => describeEndCondition(s.endCondition) },
+  { label: 'Total rules', describe: s => s.totalRules.map(describeTotalRule).join(', ') || 'None' },
+  { label: 'Special cards', describe: s => s.cardRules.map(describeRule).join(', ') || 'None' }
+];
+
+export const describePresetChanges = (current: CardSettings, preset: GamePreset): SettingChange[] => {
+  const next = applyPreset(preset);
+  // Card values of both decks, so switching decks shows the values that come with the new one
+  const ranks = new Set([...getDeckRanks(getDeck(current.deckId)), ...getDeckRanks(getDeck(next.deckId))]);
+  return settingDescriptors([...ranks])
+    .map(({ label, describe }) => ({ label, from: describe(current), to: describe(next) }))
+    .filter(change => change.from !== change.to);
+};
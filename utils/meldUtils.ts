@@ -0,0 +1,205 @@
+import { CardSettings, DetectedCard, Meld } from '../types';
+import { getRankKey, getSuitKey, getWildRank, calculateCardScore } from './scoringUtils';
+
+export interface MeldAnalysis {
+  melds: Meld[];
+  deadwood: DetectedCard[];
+  deadwoodPoints: number;
+}
+
+const MIN_MELD_SIZE = 3;
+
+// The search grows exponentially with the hand: 18 naturals with two wilds take tens of
+// milliseconds, a few more take seconds. Bigger (or misread) hands are scored as all deadwood.
+const MAX_NATURALS = 18;
+// Sets are tried as every combination of same-rank cards; with several decks that runs into the
+// hundreds per card, so only this many copies of a rank are considered for one set
+const MAX_SET_SIZE = 8;
+
+// Run positions: Aces can sit below the 2 or above the King, but runs don't wrap
+const RUN_VALUES: Record<string, number[]> = {
+  A: [1, 14], '2': [2], '3': [3], '4': [4], '5': [5], '6': [6], '7': [7], '8': [8], '9': [9], '10': [10],
+  J: [11], Q: [12], K: [13]
+};
+
+interface Natural {
+  card: DetectedCard;
+  rank: string;
+  suit: string | null;
+  cost: number;
+}
+
+interface SearchResult {
+  cost: number;
+  melds: { type: Meld['type']; naturals: number[]; wilds: number }[];
+}
+
+export const isWildCard = (card: Omit<DetectedCard, 'id'>, settings: CardSettings, roundNumber?: number): boolean => {
+  const rank = getRankKey(card.rank);
+  return rank === 'Joker' || (!!rank && rank === getWildRank(settings, roundNumber));
+};
+
+// Finds the split of a hand into sets and runs that leaves the fewest deadwood points.
+// Jokers and the round's wild rank can stand in for any card; leftover wilds join an existing meld.
+export const analyzeMelds = (cards: DetectedCard[], settings: CardSettings, roundNumber?: number): MeldAnalysis => {
+  const costOf = (card: DetectedCard) => calculateCardScore(card, settings, roundNumber);
+
+  // Most expensive wilds are used first, so whatever is left over costs the least
+  const wilds = cards.filter(c => isWildCard(c, settings, roundNumber)).sort((a, b) => costOf(b) - costOf(a));
+  const naturals = toNaturals(cards, settings, roundNumber);
+
+  if (naturals.length > MAX_NATURALS) return summarizeMelds(cards, [], settings, roundNumber);
+
+  const memo = new Map<string, SearchResult>();
+
+  const search = (mask: number, wildsUsed: number, hasMeld: boolean): SearchResult => {
+    const key = `${mask}:${wildsUsed}:${hasMeld}`;
+    const cached = memo.get(key);
+    if (cached) return cached;
+
+    const first = naturals.findIndex((_, i) => !(mask & (1 << i)));
+    let best: SearchResult;
+
+    if (first === -1) {
+      // Only wilds remain: they can extend a meld, form their own, or count against the hand
+      const leftover = wilds.length - wildsUsed;
+      if (leftover === 0 || hasMeld) {
+        best = { cost: 0, melds: [] };
+      } else if (leftover >= MIN_MELD_SIZE) {
+        best = { cost: 0, melds: [{ type: 'set', naturals: [], wilds: leftover }] };
+      } else {
+        best = { cost: wilds.slice(wildsUsed).reduce((sum, c) => sum + costOf(c), 0), melds: [] };
+      }
+      memo.set(key, best);
+      return best;
+    }
+
+    // Option 1: the card stays in hand as deadwood
+    const rest = search(mask | (1 << first), wildsUsed, hasMeld);
+    best = { cost: rest.cost + naturals[first].cost, melds: rest.melds };
+
+    // Option 2: the card starts a meld with some of the remaining cards
+    for (const candidate of candidateMelds(first, mask, naturals, wilds.length - wildsUsed)) {
+      const usedMask = candidate.naturals.reduce((m, i) => m | (1 << i), mask);
+      const next = search(usedMask, wildsUsed + candidate.wilds, true);
+      if (next.cost < best.cost) {
+        best = { cost: next.cost, melds: [candidate, ...next.melds] };
+      }
+    }
+
+    memo.set(key, best);
+    return best;
+  };
+
+  const result = search(0, 0, false);
+
+  // Hand the wilds out to melds in the order they were consumed
+  let wildIndex = 0;
+  const melds: Meld[] = result.melds.map(m => {
+    const meldWilds = wilds.slice(wildIndex, wildIndex + m.wilds);
+    wildIndex += m.wilds;
+    return { type: m.type, cardIds: [...m.naturals.map(i => naturals[i].card.id), ...meldWilds.map(c => c.id)] };
+  });
+
+  // Spare wilds join the first meld rather than counting as deadwood
+  if (melds.length > 0 && wildIndex < wilds.length) {
+    melds[0] = { ...melds[0], cardIds: [...melds[0].cardIds, ...wilds.slice(wildIndex).map(c => c.id)] };
+  }
+
+  return summarizeMelds(cards, melds, settings, roundNumber);
+};
+
+const toNaturals = (cards: DetectedCard[], settings: CardSettings, roundNumber?: number): Natural[] => cards
+  .filter(c => !isWildCard(c, settings, roundNumber))
+  .map(card => ({ card, rank: getRankKey(card.rank) || '', suit: getSuitKey(card.suit), cost: calculateCardScore(card, settings, roundNumber) }));
+
+// Whether these cards make a set or a run on their own, by the same rules the analyzer uses
+export const getMeldType = (cards: DetectedCard[], settings: CardSettings, roundNumber?: number): Meld['type'] | null => {
+  if (cards.length < MIN_MELD_SIZE) return null;
+  const naturals = toNaturals(cards, settings, roundNumber);
+  if (naturals.length === 0) return 'set'; // Nothing but wilds
+  if (naturals.length > MAX_NATURALS) return null;
+  // Wilds beyond what the meld needs just lengthen it
+  const match = candidateMelds(0, 0, naturals, cards.length - naturals.length).find(c => c.naturals.length === naturals.length);
+  return match ? match.type : null;
+};
+
+// Puts `cardIds` into the meld at `target` (or a new one when null), taking them out of any other meld.
+// Null when that doesn't make a valid meld; melds the move leaves invalid are broken up into deadwood.
+export const moveIntoMeld = (
+  cards: DetectedCard[], melds: Meld[], cardIds: string[], target: number | null, settings: CardSettings, roundNumber?: number
+): Meld[] | null => {
+  const moving = new Set(cardIds);
+  const cardsOf = (ids: string[]) => ids.map(id => cards.find(c => c.id === id)).filter((c): c is DetectedCard => !!c);
+  const targetIds = [...(target === null ? [] : melds[target].cardIds.filter(id => !moving.has(id))), ...cardIds];
+  const type = getMeldType(cardsOf(targetIds), settings, roundNumber);
+  if (!type) return null;
+
+  const updated = melds.flatMap((meld, i): Meld[] => {
+    if (i === target) return [{ type, cardIds: targetIds }];
+    const remaining = meld.cardIds.filter(id => !moving.has(id));
+    if (remaining.length === meld.cardIds.length) return [meld];
+    const remainingType = getMeldType(cardsOf(remaining), settings, roundNumber);
+    return remainingType ? [{ type: remainingType, cardIds: remaining }] : [];
+  });
+  return target === null ? [...updated, { type, cardIds: targetIds }] : updated;
+};
+
+// Deadwood for a fixed set of melds, e.g. ones the player adjusted by hand
+export const summarizeMelds = (cards: DetectedCard[], melds: Meld[], settings: CardSettings, roundNumber?: number): MeldAnalysis => {
+  const melded = new Set(melds.flatMap(m => m.cardIds));
+  const validMelds = melds.filter(m => m.cardIds.some(id => cards.some(c => c.id === id)));
+  const deadwood = cards.filter(c => !melded.has(c.id));
+  return {
+    melds: validMelds,
+    deadwood,
+    deadwoodPoints: deadwood.reduce((sum, c) => sum + calculateCardScore(c, settings, roundNumber), 0)
+  };
+};
+
+// All sets and runs that include naturals[first], using only unused naturals and at most `wildsLeft` wilds
+const candidateMelds = (first: number, mask: number, naturals: Natural[], wildsLeft: number) => {
+  const candidates: { type: Meld['type']; naturals: number[]; wilds: number }[] = [];
+  const available = (i: number) => i !== first && !(mask & (1 << i));
+  const card = naturals[first];
+  if (!card.rank) return candidates;
+
+  // Sets: any combination of same-rank cards, padded with wilds up to the minimum size.
+  // Copies of the same card (multi-deck) are interchangeable, so a later copy is only
+  // taken together with every earlier one.
+  const sameRank = naturals.map((n, i) => i)
+    .filter(i => available(i) && naturals[i].rank === card.rank)
+    .slice(0, MAX_SET_SIZE - 1);
+  const isIdentical = (a: number, b: number) => naturals[a].suit === naturals[b].suit;
+  for (let combo = 0; combo < (1 << sameRank.length); combo++) {
+    const skipsEarlierCopy = sameRank.some((index, bit) => (combo & (1 << bit))
+      && sameRank.some((other, otherBit) => otherBit < bit && !(combo & (1 << otherBit)) && isIdentical(index, other)));
+    if (skipsEarlierCopy) continue;
+    const members = [first, ...sameRank.filter((_, bit) => combo & (1 << bit))];
+    const wildsNeeded = Math.max(0, MIN_MELD_SIZE - members.length);
+    if (wildsNeeded <= wildsLeft) candidates.push({ type: 'set', naturals: members, wilds: wildsNeeded });
+  }
+
+  // Runs: every window through the card's position in its suit, with wilds filling the gaps
+  if (!card.suit || !RUN_VALUES[card.rank]) return candidates;
+
+  for (const value of RUN_VALUES[card.rank]) {
+    for (let low = Math.max(1, value - 13); low <= value; low++) {
+      for (let high = Math.max(value, low + MIN_MELD_SIZE - 1); high <= 14 && high - low < 13; high++) {
+        const members = [first];
+        let wilds = 0;
+        for (let position = low; position <= high; position++) {
+          if (position === value) continue;
+          const match = naturals.findIndex((n, i) =>
+            available(i) && !members.includes(i) && n.suit === card.suit && (RUN_VALUES[n.rank] || []).includes(position)
+          );
+          if (match >= 0) members.push(match);
+          else wilds++;
+        }
+        if (wilds <= wildsLeft) candidates.push({ type: 'run', naturals: members, wilds });
+      }
+    }
+  }
+
+  return candidates;
+};
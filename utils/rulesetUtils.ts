@@ -0,0 +1,37 @@
+import { CardSettings, Player, Round, RoundRuleset } from '../types';
+
+// Settings that decide what a single round is worth. Everything else (winner, game end,
+// total rules) looks at the whole game and always uses the current settings.
+const RULESET_FIELDS = ['rankValues', 'cardRules', 'wildCards', 'handScoring', 'bidScoring'] as const;
+
+export const snapshotRuleset = (settings: CardSettings): RoundRuleset => ({
+  rulesetVersion: settings.rulesetVersion,
+  rankValues: settings.rankValues,
+  cardRules: settings.cardRules,
+  wildCards: settings.wildCards,
+  handScoring: settings.handScoring,
+  bidScoring: settings.bidScoring
+});
+
+export const hasRulesetChanges = (current: CardSettings, next: CardSettings): boolean =>
+  RULESET_FIELDS.some(field => JSON.stringify(current[field]) !== JSON.stringify(next[field]));
+
+// The settings a round is scored with: its own snapshot on top of the current game settings
+export const getRoundSettings = (round: Round, settings: CardSettings): CardSettings =>
+  round.ruleset ? { ...settings, ...round.ruleset } : settings;
+
+// Rounds keep the ruleset they were entered under; rounds from before snapshots existed get `settings`
+export const stampRounds = (players: Player[], settings: CardSettings): Player[] => {
+  const ruleset = snapshotRuleset(settings);
+  return players.map(p => ({ ...p, rounds: p.rounds.map(r => r.ruleset ? r : { ...r, ruleset }) }));
+};
+
+// "Re-score all": every round moves to `settings`, whatever it was entered under.
+// Stored melds were found under the old wilds and values, so scan rounds are split up again.
+export const restampRounds = (players: Player[], settings: CardSettings): Player[] => {
+  const ruleset = snapshotRuleset(settings);
+  return players.map(p => ({
+    ...p,
+    rounds: p.rounds.map(r => r.type === 'scan' ? { ...r, melds: undefined, ruleset } : { ...r, ruleset })
+  }));
+};
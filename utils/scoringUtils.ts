@@ -1,53 +1,201 @@
 
-import { CardSettings, DetectedCard, Player, Round } from '../types';
-
-export const calculateCardScore = (card: Omit<DetectedCard, 'id'>, settings: CardSettings): number => {
-  const rank = card.rank.toUpperCase();
-  
-  // Joker
-  if (rank === 'JOKER') {
-    return settings.jokerValue;
-  }
+import { CardRank, CardRule, CardSettings, CardSuit, DetectedCard, Player, RankValues, Round, TotalRule } from '../types';
+import { analyzeMelds, summarizeMelds, MeldAnalysis } from './meldUtils';
+import { calculateBidScore, getRoundBags } from './bidUtils';
+import { getRoundSettings } from './rulesetUtils';
+import { CARD_RANKS, normalizeRank, normalizeSuit } from './cardNormalization';
 
-  // Ace
-  if (rank === 'A' || rank === 'ACE') {
-    return settings.aceValue;
-  }
+// Order used by the settings grid and anywhere ranks are listed
+export const RANKS: CardRank[] = CARD_RANKS;
 
-  // Face Cards (K, Q, J)
-  if (['K', 'Q', 'J', 'KING', 'QUEEN', 'JACK'].includes(rank)) {
-    if (settings.faceCardBehavior === 'fixed') {
-      return settings.fixedFaceValue || 10;
-    }
-    // Face values
-    if (rank.startsWith('J')) return 11;
-    if (rank.startsWith('Q')) return 12;
-    if (rank.startsWith('K')) return 13;
-  }
+// Standard face values: A=1, number cards by pip count, J=11, Q=12, K=13
+export const FACE_VALUES: RankValues = {
+  A: 1, '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9, '10': 10,
+  J: 11, Q: 12, K: 13, Joker: 0
+};
 
-  // Number Cards
-  const num = parseInt(rank);
-  if (!isNaN(num)) {
-    if (settings.numberCardBehavior === 'fixed') {
-      return settings.fixedNumberValue || 5;
-    }
-    return num; // Face value
+// Maps a rank onto a key of the rank table, or null if it isn't one.
+// Rounds saved before ranks were normalized can still hold free text, so this stays lenient.
+export const getRankKey = (rank: string): CardRank | null => normalizeRank(rank);
+
+// Suits card rules can target ('None' is the absence of one)
+export const SUITS: CardSuit[] = ['Spades', 'Hearts', 'Diamonds', 'Clubs', 'Stars'];
+
+const RED_SUITS = ['Hearts', 'Diamonds'];
+const BLACK_SUITS = ['Spades', 'Clubs'];
+
+// Maps a suit ('hearts', 'Heart', '♥') onto one of SUITS, or null
+export const getSuitKey = (suit: string): CardSuit | null => {
+  const key = normalizeSuit(suit);
+  return key && key !== 'None' ? key : null;
+};
+
+export const SUIT_SYMBOLS: Record<string, string> = {
+  Spades: '♠',
+  Hearts: '♥',
+  Diamonds: '♦',
+  Clubs: '♣',
+  Stars: '★'
+};
+
+// Compact label for chips and summaries, e.g. "10♥"; suits without a symbol (Uno colors) are spelled out
+export const formatCard = (card: Omit<DetectedCard, 'id'>): string => {
+  const suit = getSuitKey(card.suit);
+  if (!suit) return card.rank;
+  return SUIT_SYMBOLS[suit] ? `${card.rank}${SUIT_SYMBOLS[suit]}` : `${suit} ${card.rank}`;
+};
+
+const ruleMatches = (rule: CardRule, rank: string | null, suit: string | null): boolean => {
+  if (rule.rank && rule.rank !== rank) return false;
+  if (rule.suit) return rule.suit === suit;
+  if (rule.color === 'red') return !!suit && RED_SUITS.includes(suit);
+  if (rule.color === 'black') return !!suit && BLACK_SUITS.includes(suit);
+  return true;
+};
+
+export const describeCardRule = (rule: CardRule): string => {
+  const rank = rule.rank || '';
+  if (rule.suit) return rank ? `${rank} of ${rule.suit}` : rule.suit;
+  const color = rule.color ? rule.color.charAt(0).toUpperCase() + rule.color.slice(1) : '';
+  if (color) return rank ? `${color} ${rank}s` : `${color} cards`;
+  return rank ? `All ${rank}s` : 'All cards';
+};
+
+// Rank that is wild in the given (1-based) round, if any
+export const getWildRank = (settings: CardSettings, roundNumber?: number): string | null => {
+  const ranks = settings.wildCards?.rankByRound || [];
+  if (ranks.length === 0) return null;
+  if (ranks.length === 1) return ranks[0];
+  if (!roundNumber || roundNumber < 1) return null;
+  return ranks[(roundNumber - 1) % ranks.length];
+};
+
+export interface CardScore {
+  points: number;
+  base: number;        // Value from the rank table alone
+  rules: CardRule[];   // Rules that matched, in the order they were applied
+  isWild: boolean;     // Wild for this round, so worth the wild penalty instead
+}
+
+export const scoreCard = (card: Omit<DetectedCard, 'id'>, settings: CardSettings, roundNumber?: number): CardScore => {
+  const rank = getRankKey(card.rank);
+  const suit = getSuitKey(card.suit);
+  const base = rank ? settings.rankValues[rank] ?? 0 : 0;
+
+  if (rank && rank === getWildRank(settings, roundNumber)) {
+    return { points: settings.wildCards.points, base, rules: [], isWild: true };
   }
 
-  // Fallback
-  return 0;
+  const rules = (settings.cardRules || []).filter(rule => ruleMatches(rule, rank, suit));
+  const points = rules.reduce((value, rule) => rule.mode === 'set' ? rule.points : value + rule.points, base);
+
+  return { points, base, rules, isWild: false };
+};
+
+export const calculateCardScore = (card: Omit<DetectedCard, 'id'>, settings: CardSettings, roundNumber?: number): number => {
+  return scoreCard(card, settings, roundNumber).points;
+};
+
+// Confirmed melds when the round has them, otherwise the best split the analyzer finds
+export const getRoundMelds = (round: Extract<Round, { type: 'scan' }>, currentSettings: CardSettings, roundNumber?: number): MeldAnalysis => {
+  const settings = getRoundSettings(round, currentSettings);
+  return round.melds
+    ? summarizeMelds(round.cards, round.melds, settings, roundNumber)
+    : analyzeMelds(round.cards, settings, roundNumber);
 };
 
-export const calculateRoundScore = (round: Round, settings: CardSettings): number => {
+// Deadwood scan rounds keep the split the analyzer found, so the search runs once per round
+// instead of on every render. Players come back unchanged (same objects) when nothing was missing.
+export const storeRoundMelds = (players: Player[], settings: CardSettings): Player[] => {
+  const needsMelds = (round: Round) =>
+    round.type === 'scan' && !round.melds && getRoundSettings(round, settings).handScoring === 'deadwood';
+  if (!players.some(p => p.rounds.some(needsMelds))) return players;
+  return players.map(p => !p.rounds.some(needsMelds) ? p : {
+    ...p,
+    rounds: p.rounds.map((round, i) => round.type === 'scan' && needsMelds(round)
+      ? { ...round, melds: analyzeMelds(round.cards, getRoundSettings(round, settings), i + 1).melds }
+      : round)
+  });
+};
+
+// roundNumber is the 1-based position of the round in the player's history.
+// Rounds are scored with the ruleset they were entered under, when they have one.
+export const calculateRoundScore = (round: Round, currentSettings: CardSettings, roundNumber?: number): number => {
+  const settings = getRoundSettings(round, currentSettings);
   if (round.type === 'manual') {
     return round.score;
   }
   if (round.type === 'scan') {
-    return round.cards.reduce((sum, card) => sum + calculateCardScore(card, settings), 0);
+    if (settings.handScoring === 'deadwood') {
+      return getRoundMelds(round, settings, roundNumber).deadwoodPoints;
+    }
+    return round.cards.reduce((sum, card) => sum + calculateCardScore(card, settings, roundNumber), 0);
+  }
+  if (round.type === 'bid') {
+    return calculateBidScore(round, settings.bidScoring);
   }
   return 0;
 };
 
-export const calculatePlayerTotal = (player: Player, settings: CardSettings): number => {
-  return player.rounds.reduce((sum, round) => sum + calculateRoundScore(round, settings), 0);
+const totalRuleMatches = (rule: TotalRule, total: number): boolean => {
+  switch (rule.trigger) {
+    case 'exactly': return total === rule.value;
+    case 'atLeast': return total >= rule.value;
+    case 'above': return total > rule.value;
+    case 'below': return total < rule.value;
+    default: return false;
+  }
+};
+
+const TRIGGER_LABELS: Record<TotalRule['trigger'], string> = {
+  exactly: 'Exactly',
+  atLeast: 'Reaching',
+  above: 'Above',
+  below: 'Below'
+};
+
+export const describeTotalRule = (rule: TotalRule): string => `${TRIGGER_LABELS[rule.trigger]} ${rule.value} → ${rule.setTo}`;
+
+export interface RoundStep {
+  roundId: string;
+  points: number;           // What the round itself scored
+  total: number;            // Running total after the round and any rules
+  bagPenalty: number;       // Points lost this round for piling up overtricks
+  firedRules: TotalRule[];  // Total rules that changed the running total this round
+}
+
+// Running totals round by round, with bag penalties and then the total rules applied after each one.
+// roundCount limits the walk to the player's first N rounds.
+export const calculateRunningTotals = (player: Player, settings: CardSettings, roundCount?: number): RoundStep[] => {
+  const { bagLimit, bagPenalty: penaltyPerLimit } = settings.bidScoring;
+  let total = 0;
+  let bags = 0;
+  return player.rounds.slice(0, roundCount ?? player.rounds.length).map((round, i) => {
+    const points = calculateRoundScore(round, settings, i + 1);
+    total += points;
+
+    let bagPenalty = 0;
+    if (bagLimit > 0) {
+      bags += getRoundBags(round, getRoundSettings(round, settings).bidScoring);
+      while (bags >= bagLimit) {
+        bags -= bagLimit;
+        bagPenalty += penaltyPerLimit;
+      }
+      total -= bagPenalty;
+    }
+
+    const firedRules: TotalRule[] = [];
+    for (const rule of settings.totalRules || []) {
+      if (totalRuleMatches(rule, total) && total !== rule.setTo) {
+        total = rule.setTo;
+        firedRules.push(rule);
+      }
+    }
+    return { roundId: round.id, points, total, bagPenalty, firedRules };
+  });
+};
+
+export const calculatePlayerTotal = (player: Player, settings: CardSettings, roundCount?: number): number => {
+  const steps = calculateRunningTotals(player, settings, roundCount);
+  return steps.length > 0 ? steps[steps.length - 1].total : 0;
 };
@@ -0,0 +1,121 @@
+import { BoundingBox, Player, RecognizedCard } from '../types';
+
+// Where on the photo a hand was, as fractions (0-1) of the image size
+export interface SeatPosition {
+  x: number;
+  y: number;
+}
+
+export interface CardGroup {
+  cards: RecognizedCard[];
+  center: SeatPosition | null; // null for cards the recognizer couldn't place
+}
+
+const centerOf = (box: BoundingBox): SeatPosition => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+const distance = (a: SeatPosition, b: SeatPosition) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const averageCenter = (points: SeatPosition[]): SeatPosition => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+});
+
+// Cards within this many card-lengths of each other always belong to the same hand
+const SAME_HAND_SPACING = 1.5;
+
+// Splits one photo of the whole table into hands. Nearby cards are joined first (single linkage),
+// then the closest hands keep merging until there are no more hands than players.
+export const clusterCards = (cards: RecognizedCard[], maxGroups: number): CardGroup[] => {
+  const placed = cards.filter(c => c.box);
+  const loose = cards.filter(c => !c.box);
+
+  const centers = placed.map(c => centerOf(c.box!));
+  const cardSizes = placed.map(c => Math.max(c.box!.width, c.box!.height)).sort((a, b) => a - b);
+  const joinDistance = (cardSizes[Math.floor(cardSizes.length / 2)] ?? 0) * SAME_HAND_SPACING;
+
+  let clusters: number[][] = placed.map((_, i) => [i]);
+  while (clusters.length > 1) {
+    let best = { a: 0, b: 1, dist: Infinity };
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        for (const i of clusters[a]) {
+          for (const j of clusters[b]) {
+            const dist = distance(centers[i], centers[j]);
+            if (dist < best.dist) best = { a, b, dist };
+          }
+        }
+      }
+    }
+    if (best.dist > joinDistance && clusters.length <= maxGroups) break;
+    clusters = [
+      ...clusters.filter((_, i) => i !== best.a && i !== best.b),
+      [...clusters[best.a], ...clusters[best.b]]
+    ];
+  }
+
+  const groups = clusters.map(indexes => ({
+    cards: [...indexes].sort((a, b) => a - b).map(i => placed[i]),
+    center: averageCenter(indexes.map(i => centers[i]))
+  }));
+  // Keep the recognizer's reading order between hands too
+  groups.sort((a, b) => cards.indexOf(a.cards[0]) - cards.indexOf(b.cards[0]));
+  return loose.length > 0 ? [...groups, { cards: loose, center: null }] : groups;
+};
+
+// A hand further than this from a remembered seat is treated as someone new sitting there
+const SEAT_MATCH_DISTANCE = 0.35;
+
+// Picks a player for each hand: remembered seats first (closest pairs win), then everyone else
+// goes round the table clockwise from the bottom of the photo in roster order.
+export const assignSeats = (
+  groups: CardGroup[],
+  players: Player[],
+  seats: Record<string, SeatPosition>
+): (string | null)[] => {
+  const assigned: (string | null)[] = groups.map(() => null);
+  const taken = new Set<string>();
+
+  const pairs = groups.flatMap((group, g) => players
+    .filter(p => group.center && seats[p.id])
+    .map(p => ({ g, playerId: p.id, dist: distance(group.center!, seats[p.id]) })))
+    .filter(pair => pair.dist <= SEAT_MATCH_DISTANCE)
+    .sort((a, b) => a.dist - b.dist);
+  pairs.forEach(({ g, playerId }) => {
+    if (assigned[g] || taken.has(playerId)) return;
+    assigned[g] = playerId;
+    taken.add(playerId);
+  });
+
+  const placed = groups.filter(g => g.center).map(g => g.center!);
+  const tableCenter = placed.length > 0 ? averageCenter(placed) : { x: 0.5, y: 0.5 };
+  // Angle measured clockwise starting straight down from the middle of the table
+  const angle = (p: SeatPosition) => (Math.atan2(tableCenter.x - p.x, p.y - tableCenter.y) + 2 * Math.PI) % (2 * Math.PI);
+
+  const waiting = players.filter(p => !taken.has(p.id));
+  groups
+    .map((group, g) => ({ group, g }))
+    .filter(({ group, g }) => group.center && !assigned[g])
+    .sort((a, b) => angle(a.group.center!) - angle(b.group.center!))
+    .forEach(({ g }) => {
+      const next = waiting.shift();
+      if (next) assigned[g] = next.id;
+    });
+
+  return assigned;
+};
+
+// Seat positions are per device: they describe where this phone sees each player sitting
+const SEATS_KEY = 'snapscore_seats';
+
+export const loadSeats = (): Record<string, SeatPosition> => {
+  try {
+    const stored = localStorage.getItem(SEATS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveSeats = (seats: Record<string, SeatPosition>) => {
+  localStorage.setItem(SEATS_KEY, JSON.stringify({ ...loadSeats(), ...seats }));
+};
@@ -0,0 +1,56 @@
+import { CardSettings, Player, Round, Team } from '../types';
+import { calculateRoundScore } from './scoringUtils';
+import { getRoundBags, scorePartnershipRound } from './bidUtils';
+import { getRoundSettings } from './rulesetUtils';
+
+export const getTeamMembers = (team: Team, players: Player[]): Player[] =>
+  players.filter(p => team.playerIds.includes(p.id));
+
+export const getPlayerTeam = (playerId: string, teams: Team[]): Team | undefined =>
+  teams.find(t => t.playerIds.includes(playerId));
+
+// What the members' round N is worth to the team: bid rounds are scored as one partnership contract,
+// anything else is the sum of what each member scored
+const combineRound = (rounds: Round[], settings: CardSettings, roundNumber: number): { score: number; bags: number } => {
+  const bidRounds = rounds.filter((r): r is Extract<Round, { type: 'bid' }> => r.type === 'bid');
+  if (bidRounds.length === rounds.length) {
+    return scorePartnershipRound(bidRounds, getRoundSettings(bidRounds[0], settings).bidScoring);
+  }
+  return {
+    score: rounds.reduce((sum, r) => sum + calculateRoundScore(r, settings, roundNumber), 0),
+    bags: rounds.reduce((sum, r) => sum + getRoundBags(r, getRoundSettings(r, settings).bidScoring), 0)
+  };
+};
+
+// A team scores like a single player: its round N combines every member's round N,
+// and only counts once all members have entered it. Bags and total rules then apply to the team total.
+export const combineTeam = (team: Team, players: Player[], settings: CardSettings): Player => {
+  const members = getTeamMembers(team, players);
+  const roundCount = members.length > 0 ? Math.min(...members.map(m => m.rounds.length)) : 0;
+
+  const rounds: Round[] = Array.from({ length: roundCount }, (_, i) => ({
+    type: 'manual',
+    id: `${team.id}:${i + 1}`,
+    ...combineRound(members.map(m => m.rounds[i]), settings, i + 1),
+    timestamp: Math.max(...members.map(m => m.rounds[i].timestamp))
+  }));
+
+  return { id: team.id, name: team.name, rounds };
+};
+
+// Everyone competing for the win: each team with members, plus every player without a team
+export const getScoringSides = (players: Player[], teams: Team[], settings: CardSettings): Player[] => {
+  const activeTeams = teams.filter(t => getTeamMembers(t, players).length > 0);
+  const teamed = new Set(activeTeams.flatMap(t => t.playerIds));
+  return [
+    ...activeTeams.map(t => combineTeam(t, players, settings)),
+    ...players.filter(p => !teamed.has(p.id))
+  ];
+};
+
+// Side ids (team or player) back to the ids of the players on them
+export const expandSideIds = (sideIds: string[], players: Player[], teams: Team[]): string[] =>
+  sideIds.flatMap(id => {
+    const team = teams.find(t => t.id === id);
+    return team ? getTeamMembers(team, players).map(p => p.id) : [id];
+  });
@@ -1,8 +1,11 @@
 
 import React, { useState } from 'react';
-import { Player, CardSettings, Round } from '../types';
+import { Player, CardSettings, Round, Team, PendingScan } from '../types';
 import { Button } from '../components/Button';
-import { calculatePlayerTotal, calculateRoundScore } from '../utils/scoringUtils';
+import { IconCamera } from '../components/Icons';
+import { calculatePlayerTotal, calculateRoundScore, getWildRank } from '../utils/scoringUtils';
+import { evaluateGame, describeEndReason } from '../utils/gameEndUtils';
+import { combineTeam, getTeamMembers } from '../utils/teamUtils';
 import { v4 as uuidv4 } from 'uuid';
 
 // Imported Components
@@ -10,12 +13,20 @@ import { GameHeader } from '../components/game/GameHeader';
 import { PlayerCard } from '../components/game/PlayerCard';
 import { RoundDetailsModal } from '../components/game/RoundDetailsModal';
 import { ManualEntryModal } from '../components/game/ManualEntryModal';
+import { BidEntryModal } from '../components/game/BidEntryModal';
+import { GameOverBanner } from '../components/game/GameOverBanner';
+import { TeamHeader } from '../components/game/TeamHeader';
+import { PendingScanChip } from '../components/game/PendingScanChip';
 
 interface GameViewProps {
   players: Player[];
+  teams: Team[];
   settings: CardSettings;
   onSaveRound: (playerId: string, round: Round) => void;
   onRequestScan: (playerId: string, roundId?: string) => void;
+  onRequestTableScan: () => void;
+  pendingScans: PendingScan[]; // Queued photos on this device, shown on their player's card (or by the table scan)
+  onOpenPendingScan: (scan: PendingScan) => void;
   onUpdatePlayers: (players: Player[]) => void;
   onOpenSettings: () => void;
   onNewGame: () => void; // Soft reset for Host/Solo
@@ -27,9 +38,13 @@ interface GameViewProps {
 
 export const GameView: React.FC<GameViewProps> = ({ 
   players, 
+  teams,
   settings,
   onSaveRound, 
   onRequestScan,
+  onRequestTableScan,
+  pendingScans,
+  onOpenPendingScan,
   onUpdatePlayers,
   onOpenSettings,
   onNewGame,
@@ -41,6 +56,8 @@ export const GameView: React.FC<GameViewProps> = ({
   const [manualEntryPlayerId, setManualEntryPlayerId] = useState<string | null>(null);
   const [manualEntryRoundId, setManualEntryRoundId] = useState<string | null>(null);
   const [manualScore, setManualScore] = useState<string>('');
+  const [bidEntryPlayerId, setBidEntryPlayerId] = useState<string | null>(null);
+  const [bidEntryRound, setBidEntryRound] = useState<Extract<Round, { type: 'bid' }> | null>(null);
   const [showNewGameConfirm, setShowNewGameConfirm] = useState(false);
   const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
   const [playerToDelete, setPlayerToDelete] = useState<string | null>(null);
@@ -88,6 +105,26 @@ export const GameView: React.FC<GameViewProps> = ({
     }
   };
 
+  // Handlers for Bid Entry (trick-taking games)
+  const openBidEntry = (playerId: string, round?: Extract<Round, { type: 'bid' }>) => {
+    setBidEntryPlayerId(playerId);
+    setBidEntryRound(round || null);
+  };
+
+  const handleBidSave = (bid: number, tricks: number) => {
+    if (bidEntryPlayerId) {
+        onSaveRound(bidEntryPlayerId, {
+            type: 'bid',
+            id: bidEntryRound?.id || uuidv4(),
+            bid,
+            tricks,
+            timestamp: Date.now()
+        });
+        setBidEntryPlayerId(null);
+        setBidEntryRound(null);
+    }
+  };
+
   // Handlers for Round Details
   const handleRoundSave = () => {
       if (activeRound && activeRoundPlayerId) {
@@ -123,23 +160,22 @@ export const GameView: React.FC<GameViewProps> = ({
       }
   };
 
-  // Calculate winner
-  const allPlayersHavePlayed = players.length > 0 && players.every(p => p.rounds.length > 0);
-  let winningPlayerIds = new Set<string>();
+  // Calculate winner (the current leader until an end condition triggers)
+  const gameStatus = evaluateGame(players, settings, teams);
+  const winningPlayerIds = new Set<string>(gameStatus.leaderIds);
+  const eliminatedPlayerIds = new Set<string>(gameStatus.eliminatedIds);
 
-  if (allPlayersHavePlayed) {
-    const playerTotals = players.map(p => ({ id: p.id, total: calculatePlayerTotal(p, settings) }));
-    const totals = playerTotals.map(pt => pt.total);
-    const targetScore = settings.winningScoreType === 'highest' 
-        ? Math.max(...totals) 
-        : Math.min(...totals);
-    
-    playerTotals.forEach(pt => {
-        if (pt.total === targetScore) {
-            winningPlayerIds.add(pt.id);
-        }
-    });
-  }
+  // Partnerships: members still get their own cards, but the team holds the score
+  const activeTeams = teams.filter(t => getTeamMembers(t, players).length > 0);
+  const teamedPlayerIds = new Set<string>(activeTeams.flatMap(t => t.playerIds));
+  const winnerNames = [
+    ...activeTeams.filter(t => getTeamMembers(t, players).every(p => winningPlayerIds.has(p.id))).map(t => t.name),
+    ...players.filter(p => winningPlayerIds.has(p.id) && !teamedPlayerIds.has(p.id)).map(p => p.name)
+  ];
+
+  // The round still being played: the first one not everybody still in has a score for
+  const activePlayers = players.filter(p => !eliminatedPlayerIds.has(p.id));
+  const currentRound = activePlayers.length > 0 ? Math.min(...activePlayers.map(p => p.rounds.length)) + 1 : 1;
 
   // Helper to render PlayerCard with correct props
   const renderPlayerCardComponent = (player: Player, index: number) => (
@@ -150,12 +186,18 @@ export const GameView: React.FC<GameViewProps> = ({
         totalPlayers={players.length}
         settings={settings}
         isEditMode={isEditMode}
-        isWinner={winningPlayerIds.has(player.id)}
+        isWinner={winningPlayerIds.has(player.id) && !teamedPlayerIds.has(player.id)}
+        isLocked={gameStatus.isOver || eliminatedPlayerIds.has(player.id)}
+        isEliminated={eliminatedPlayerIds.has(player.id)}
+        scoresForTeam={teamedPlayerIds.has(player.id)}
         onMove={movePlayer}
         onNameChange={handleNameChange}
         onDelete={setPlayerToDelete}
         onRequestScan={onRequestScan}
+        pendingScans={pendingScans.filter(s => s.playerId === player.id)}
+        onOpenPendingScan={onOpenPendingScan}
         onManualEntry={openManualEntry}
+        onBidEntry={openBidEntry}
         onRoundClick={(round, pName, pId, rIndex) => {
             setActiveRound(round);
             setActiveRoundPlayerName(pName);
@@ -174,7 +216,9 @@ export const GameView: React.FC<GameViewProps> = ({
         isClient={isClient}
         isConnected={isConnected}
         playersCount={players.length}
-        maxRounds={Math.max(0, ...players.map(p => p.rounds.length))}
+        currentRound={currentRound}
+        isGameOver={gameStatus.isOver}
+        wildRank={getWildRank(settings, currentRound)}
         onLeave={onLeave}
         onNewGame={onNewGame}
         onOpenSettings={onOpenSettings}
@@ -184,9 +228,52 @@ export const GameView: React.FC<GameViewProps> = ({
 
       {/* Player List */}
       <div className="flex-1 overflow-y-auto p-4 space-y-3 pb-24">
+        {gameStatus.isOver && !isEditMode && (
+            <GameOverBanner
+                winnerNames={winnerNames}
+                reason={describeEndReason(gameStatus, settings)}
+                isClient={isClient}
+                onNewGame={() => setShowNewGameConfirm(true)}
+            />
+        )}
+
+        {/* Everyone's hands in one photo; bid rounds have no cards to scan */}
+        {!isEditMode && !gameStatus.isOver && !settings.bidScoring.enabled && activePlayers.length > 1 && (
+            <Button variant="soft" fullWidth onClick={onRequestTableScan}>
+                <IconCamera className="w-4 h-4 mr-2" /> Scan Whole Table
+            </Button>
+        )}
+        {!isEditMode && pendingScans.some(s => s.playerId === null) && (
+            <div className="flex flex-wrap gap-2 text-xs">
+                {pendingScans.filter(s => s.playerId === null).map(scan => (
+                    <PendingScanChip key={scan.id} scan={scan} label={`Table, round ${scan.roundNumber}`} onOpen={onOpenPendingScan} />
+                ))}
+            </div>
+        )}
+
         {/* If in edit mode, show simple list. If standard, show split list */}
         {isEditMode ? (
             players.map((p, i) => renderPlayerCardComponent(p, i))
+        ) : activeTeams.length > 0 ? (
+            <>
+                {activeTeams.map(team => {
+                    const members = getTeamMembers(team, players);
+                    const combined = combineTeam(team, players, settings);
+                    return (
+                        <div key={team.id} className="space-y-2 bg-slate-900/30 rounded-2xl p-2 border border-slate-700/50">
+                            <TeamHeader
+                                name={team.name}
+                                total={calculatePlayerTotal(combined, settings)}
+                                isWinner={members.every(p => winningPlayerIds.has(p.id))}
+                                isEliminated={members.every(p => eliminatedPlayerIds.has(p.id))}
+                                isWaiting={members.some(p => p.rounds.length > combined.rounds.length)}
+                            />
+                            {members.map(p => renderPlayerCardComponent(p, players.indexOf(p)))}
+                        </div>
+                    );
+                })}
+                {players.filter(p => !teamedPlayerIds.has(p.id)).map(p => renderPlayerCardComponent(p, players.indexOf(p)))}
+            </>
         ) : (
             <>
                 {myPlayers.length > 0 && players.filter(p => !myPlayerIds.has(p.id)).length > 0 && (
@@ -306,6 +393,19 @@ export const GameView: React.FC<GameViewProps> = ({
         />
       )}
 
+      {/* Bid Entry Modal */}
+      {bidEntryPlayerId && (
+        <BidEntryModal
+          playerName={players.find(p => p.id === bidEntryPlayerId)?.name}
+          initialBid={bidEntryRound?.bid}
+          initialTricks={bidEntryRound?.tricks}
+          isEdit={!!bidEntryRound}
+          scoring={settings.bidScoring}
+          onClose={() => { setBidEntryPlayerId(null); setBidEntryRound(null); }}
+          onSave={handleBidSave}
+        />
+      )}
+
       {/* Round Details Modal */}
       {activeRound && (
         <RoundDetailsModal
@@ -313,6 +413,7 @@ export const GameView: React.FC<GameViewProps> = ({
           playerName={activeRoundPlayerName}
           playerId={activeRoundPlayerId}
           roundIndex={activeRoundIndex}
+          players={players}
           settings={settings}
           onChange={setActiveRound}
           onSave={handleRoundSave}
@@ -323,9 +424,15 @@ export const GameView: React.FC<GameViewProps> = ({
                   setActiveRound(null);
               }
           }}
+          onEditBid={() => {
+              if (activeRoundPlayerId && activeRound?.type === 'bid') {
+                  openBidEntry(activeRoundPlayerId, activeRound);
+                  setActiveRound(null);
+              }
+          }}
           onEditScoreManual={() => {
               if (activeRoundPlayerId && activeRound) {
-                  openManualEntry(activeRoundPlayerId, activeRound.id, calculateRoundScore(activeRound, settings));
+                  openManualEntry(activeRoundPlayerId, activeRound.id, calculateRoundScore(activeRound, settings, activeRoundIndex ?? undefined));
                   setActiveRound(null);
               }
           }}
@@ -1,153 +1,243 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Player, CardSettings, ScanResult, DetectedCard, Round } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Player, CardSettings, PendingScan, ScanResult, DetectedCard, Round, Meld, RecognizedCard, CardReading, BoundingBox, CardRank, CardSuit, UnreadableCard } from '../types';
 import { Button } from '../components/Button';
-import { IconCamera, IconChevronLeft, IconCheck, IconPhoto, IconX, IconTrash, IconPencil, IconPlus } from '../components/Icons';
-import { analyzeHand } from '../services/geminiService';
-import { calculateCardScore } from '../utils/scoringUtils';
+import { IconChevronLeft, IconCheck, IconX, IconTrash, IconPencil, IconPlus } from '../components/Icons';
+import { analyzeHand, isLowConfidence, isUsingFallback, loadRecognizerSettings } from '../services/recognitionService';
+import { RecognitionError, toRecognitionError, describeRecognitionError } from '../services/recognitionErrors';
+import { saveScanPhoto, releaseScanPhoto } from '../services/scanPhotos';
+import { applyPhotoEdits } from '../services/photoPipeline';
+import { PhotoEdits, DEFAULT_PHOTO_EDITS } from '../services/photoEdits';
+import { calculateCardScore, scoreCard, getWildRank, formatCard } from '../utils/scoringUtils';
+import { CardPoints } from '../components/game/CardPoints';
+import { MeldReview } from '../components/scan/MeldReview';
+import { UncertainCard } from '../components/scan/UncertainCard';
+import { CardBoxOverlay } from '../components/scan/CardBoxOverlay';
+import { CameraCapture, CaptureSource } from '../components/scan/CameraCapture';
+import { PhotoEditor } from '../components/scan/PhotoEditor';
+import { LocalReadingNotice } from '../components/scan/LocalReadingNotice';
+import { UnreadableCards } from '../components/scan/UnreadableCards';
+import { DeckWarnings } from '../components/scan/DeckWarnings';
+import { analyzeMelds, summarizeMelds } from '../utils/meldUtils';
+import { getGameDeck, getDeckRanks, getDeckSuits } from '../utils/deckDefinitions';
+import { findOverCounts, findRoundOverCounts, getOtherHands } from '../utils/deckValidation';
 import { v4 as uuidv4 } from 'uuid';
 
-const RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A', 'Joker'];
-const SUITS = ['Spades', 'Hearts', 'Diamonds', 'Clubs', 'Stars', 'None'];
-
 interface ScanViewProps {
   player: Player;
+  players: Player[]; // Everyone in the game, to check the round as a whole
   settings: CardSettings;
   existingRoundId?: string;
+  pendingScan?: PendingScan; // A queued photo to read now, or to review once it has been read
   onComplete: (round: Round) => void;
   onCancel: () => void;
+  onAnalyzeLater?: (image: string) => Promise<void>; // Queue the photo when it can't be read right now; rejects if it couldn't be stored
+  onDiscardPending?: () => void;
+  isLive?: boolean; // Auto-capture, and save clean readings by themselves
+  onLiveChange?: (enabled: boolean) => void;
+  nextPlayerName?: string; // Whose hand is scanned after this one in live mode
 }
 
-export const ScanView: React.FC<ScanViewProps> = ({ player, settings, existingRoundId, onComplete, onCancel }) => {
-  const [image, setImage] = useState<string | null>(null);
+// Time to glance at a clean live reading before it's saved
+const AUTO_SAVE_DELAY_MS = 3000;
+
+export const ScanView: React.FC<ScanViewProps> = ({
+  player, players, settings, existingRoundId, pendingScan, onComplete, onCancel, onAnalyzeLater, onDiscardPending, isLive = false, onLiveChange, nextPlayerName
+}) => {
+  const [image, setImage] = useState<string | null>(pendingScan?.image ?? null); // What is read: the photo after edits
+  const [originalImage, setOriginalImage] = useState<string | null>(pendingScan?.image ?? null); // Kept for re-cropping
+  const [photoEdits, setPhotoEdits] = useState<PhotoEdits>(DEFAULT_PHOTO_EDITS);
+  const [isEditingPhoto, setIsEditingPhoto] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [result, setResult] = useState<ScanResult | null>(null);
   const [fullCards, setFullCards] = useState<DetectedCard[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<RecognitionError | null>(null);
   
   // Edit state
   const [editingCardId, setEditingCardId] = useState<string | null>(null);
-  
-  // Camera states
-  const [isCameraMode, setIsCameraMode] = useState(true);
-  const [cameraError, setCameraError] = useState(false);
-  const [isMirrored, setIsMirrored] = useState(false);
+  const [adjustedMelds, setAdjustedMelds] = useState<Meld[] | null>(null); // null = use the analyzer's proposal
+  const [uncertainCards, setUncertainCards] = useState<Record<string, RecognizedCard>>({}); // Shaky readings the player hasn't checked yet
+  const [cardBoxes, setCardBoxes] = useState<Record<string, BoundingBox>>({});
+  const [focusedCardId, setFocusedCardId] = useState<string | null>(null); // Row tapped in the list, shown on the photo
+  const [unreadable, setUnreadable] = useState<UnreadableCard[]>([]);
+  const [isAutoSaveStopped, setIsAutoSaveStopped] = useState(false); // Touched the results, so they want to review
+  const [queueFailed, setQueueFailed] = useState(false); // The photo couldn't be stored for later
+  const [isFallbackRead, setIsFallbackRead] = useState(false); // Read on the device because the chosen cloud reader couldn't run
+  const [isSaving, setIsSaving] = useState(false);
+  const isSavingRef = useRef(false); // Guards a second tap (or the live auto-save) before the state catches up
+  const scanController = useRef<AbortController | null>(null);
 
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  // Leaving the view stops the scan; nobody is waiting for its answer anymore
+  useEffect(() => () => scanController.current?.abort(), []);
 
-  // Initialize Camera
+  // Queued photos open on their reading if there is one, otherwise they're read now
   useEffect(() => {
-    if (image || !isCameraMode) {
-      stopCamera();
+    if (!pendingScan) return;
+    if (pendingScan.result) applyResult(pendingScan.result);
+    else processImage(pendingScan.image);
+  }, []);
+  
+  const handleCapture = (dataUrl: string, source: CaptureSource) => {
+    setOriginalImage(dataUrl);
+    setPhotoEdits(DEFAULT_PHOTO_EDITS);
+    if (source === 'library') {
+      setIsEditingPhoto(true);
       return;
     }
-    let mounted = true;
-    const startCamera = async () => {
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } },
-          audio: false
-        });
-        if (!mounted) {
-            stream.getTracks().forEach(track => track.stop());
-            return;
-        }
-        streamRef.current = stream;
-        const track = stream.getVideoTracks()[0];
-        const settings = track.getSettings();
-        setIsMirrored(settings.facingMode !== 'environment');
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-          try { await videoRef.current.play(); } catch (e) { console.warn(e); }
-        }
-        setCameraError(false);
-      } catch (err) {
-        if (!mounted) return;
-        setCameraError(true);
-        setIsCameraMode(false);
-      }
-    };
-    startCamera();
-    return () => {
-      mounted = false;
-      stopCamera();
-    };
-  }, [isCameraMode, image]);
-
-  const stopCamera = () => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
+    setImage(dataUrl);
+    processImage(dataUrl);
   };
 
-  const handleCapture = () => {
-    if (videoRef.current && canvasRef.current) {
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(video, 0, 0);
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-        setImage(dataUrl);
-        processImage(dataUrl);
-      }
-    }
+  // Every edit starts from the original, so a re-crop never loses what an earlier crop cut off
+  const handleApplyEdits = async (edits: PhotoEdits) => {
+    if (!originalImage) return;
+    setPhotoEdits(edits);
+    setIsEditingPhoto(false);
+    clearReading();
+    // Should the edit fail, the whole photo is still worth reading
+    const edited = await applyPhotoEdits(originalImage, edits).catch(() => originalImage);
+    setImage(edited);
+    processImage(edited);
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        setImage(base64String);
-        processImage(base64String);
-      };
-      reader.readAsDataURL(file);
-    }
+  // A fresh pick goes back to the camera; a re-crop goes back to the reading it came from
+  const handleCancelEdits = () => {
+    setIsEditingPhoto(false);
+    if (!image) setOriginalImage(null);
   };
 
   const processImage = async (base64: string) => {
+    const fallback = isUsingFallback(loadRecognizerSettings());
+    // Offline, the photo waits for the chosen cloud reader rather than settling for the on-device one
+    if (fallback && !navigator.onLine && canQueue && await queuePhoto(base64)) return;
+    scanController.current?.abort();
+    const controller = new AbortController();
+    scanController.current = controller;
     setIsProcessing(true);
     setError(null);
+    setIsFallbackRead(fallback);
     try {
-      const data = await analyzeHand(base64);
-      setResult(data);
-      // Hydrate with UUIDs
-      const cardsWithIds = data.cards.map(c => ({ ...c, id: uuidv4() }));
-      setFullCards(cardsWithIds);
+      applyResult(await analyzeHand(base64, getGameDeck(settings), controller.signal));
     } catch (err) {
-      setError("Could not identify cards. Please try again or enter manually.");
+      const failure = toRecognitionError(err);
+      // Cancelled scans belong to a photo that's gone (retake) or a view that's closed
+      if (failure.kind !== 'cancelled') setError(failure);
     } finally {
-      setIsProcessing(false);
+      if (scanController.current === controller) {
+        scanController.current = null;
+        setIsProcessing(false);
+      }
     }
   };
 
-  const handleSave = () => {
-    if (fullCards.length >= 0) {
-        const round: Round = {
-            type: 'scan',
-            id: existingRoundId || uuidv4(), // Use existing ID if provided (edit mode)
-            cards: fullCards,
-            timestamp: Date.now()
-        };
-        onComplete(round);
+  const applyResult = (data: ScanResult) => {
+    setResult(data);
+    // Hydrate with UUIDs, keeping confidence details aside so they never end up in the saved round
+    const cardsWithIds = data.cards.map(c => ({ rank: c.rank, suit: c.suit, id: uuidv4() }));
+    setFullCards(cardsWithIds);
+    setUncertainCards(Object.fromEntries(
+      data.cards.flatMap((c, i) => isLowConfidence(c) ? [[cardsWithIds[i].id, c]] : [])
+    ));
+    setCardBoxes(Object.fromEntries(
+      data.cards.flatMap((c, i) => c.box ? [[cardsWithIds[i].id, c.box]] : [])
+    ));
+    setUnreadable(data.unreadable || []);
+  };
+
+  const handleSave = async () => {
+    if (isSavingRef.current) return;
+    isSavingRef.current = true;
+    setIsSaving(true);
+    const round: Round = {
+        type: 'scan',
+        id: existingRoundId || uuidv4(), // Use existing ID if provided (edit mode)
+        cards: fullCards,
+        melds: meldAnalysis?.melds,
+        photoId: image ? await saveScanPhoto(image) : undefined,
+        timestamp: Date.now()
+    };
+    // A rescan replaces the round's photo; the old one would only count against retention
+    const replaced = player.rounds.find(r => r.id === existingRoundId);
+    if (replaced?.type === 'scan' && replaced.photoId && replaced.photoId !== round.photoId) {
+        releaseScanPhoto(replaced.photoId, players, replaced.id).catch(e => console.error('Failed to delete replaced photo', e));
     }
+    onComplete(round);
   };
 
   const handleRetake = () => {
     setImage(null);
+    setOriginalImage(null);
+    setPhotoEdits(DEFAULT_PHOTO_EDITS);
+    clearReading();
+  };
+
+  // Forgets the reading but keeps the photo
+  const clearReading = () => {
+    scanController.current?.abort();
     setResult(null);
     setFullCards([]);
     setError(null);
-    setIsCameraMode(true);
     setEditingCardId(null);
+    setAdjustedMelds(null);
+    setUncertainCards({});
+    setCardBoxes({});
+    setFocusedCardId(null);
+    setUnreadable([]);
+    setIsAutoSaveStopped(false);
+    setQueueFailed(false);
+    setIsFallbackRead(false);
+  };
+
+  // Queued photos are already on their way; a rescan of one is read straight away
+  const canQueue = !!onAnalyzeLater && !pendingScan;
+
+  // If the device won't store the photo, it stays here so the cards can still be entered by hand
+  const queuePhoto = async (photo: string): Promise<boolean> => {
+    if (!onAnalyzeLater) return false;
+    setQueueFailed(false);
+    try {
+      await onAnalyzeLater(photo);
+      return true;
+    } catch (e) {
+      console.error('Failed to queue photo', e);
+      setQueueFailed(true);
+      return false;
+    }
+  };
+
+  const handleAnalyzeLater = () => {
+    if (image) queuePhoto(image);
+  };
+
+  const dismissUnreadable = (index: number) => setUnreadable(unreadable.filter((_, i) => i !== index));
+
+  // Entering an unreadable card by hand: a blank card in its place, open for editing
+  const handleEnterUnreadable = (index: number) => {
+      const box = unreadable[index].box;
+      const newCard = handleAddCard();
+      if (box) setCardBoxes({ ...cardBoxes, [newCard.id]: box });
+      dismissUnreadable(index);
+  };
+
+  // Tapping a box on the photo opens that card in the list
+  const handleSelectBox = (id: string) => {
+      setEditingCardId(id);
+      setFocusedCardId(id);
+      document.getElementById(`scan-card-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  // Any edit counts as the player having checked the card
+  const markChecked = (id: string) => {
+      setUncertainCards(prev => {
+          const { [id]: _, ...rest } = prev;
+          return rest;
+      });
+  };
+
+  const handlePickAlternative = (id: string, alternative: CardReading) => {
+      setFullCards(fullCards.map(c => c.id === id ? { ...c, rank: alternative.rank, suit: alternative.suit } : c));
+      setAdjustedMelds(null);
+      markChecked(id);
   };
 
   // Edit Handlers
@@ -155,68 +245,100 @@ export const ScanView: React.FC<ScanViewProps> = ({ player, settings, existingRo
       const newCard: DetectedCard = { id: uuidv4(), rank: 'A', suit: 'Spades' };
       setFullCards([...fullCards, newCard]);
       setEditingCardId(newCard.id);
+      setAdjustedMelds(null);
+      return newCard;
   };
 
   const handleDeleteCard = (id: string) => {
       setFullCards(fullCards.filter(c => c.id !== id));
+      setAdjustedMelds(null);
+      markChecked(id);
   };
 
-  const handleUpdateCard = (id: string, field: 'rank' | 'suit', value: string) => {
-      setFullCards(fullCards.map(c => c.id === id ? { ...c, [field]: value } : c));
+  const handleUpdateCard = (id: string, change: Partial<CardReading>) => {
+      setFullCards(fullCards.map(c => c.id === id ? { ...c, ...change } : c));
+      setAdjustedMelds(null);
+      markChecked(id);
   };
 
+  const uncertainCount = fullCards.filter(c => uncertainCards[c.id]).length;
+  const deck = getGameDeck(settings);
+  const deckRanks = getDeckRanks(deck);
+  const deckSuits = getDeckSuits(deck);
+  const activeCardId = editingCardId || focusedCardId;
+  const overlayBoxes = fullCards
+    .filter(c => cardBoxes[c.id])
+    .map(c => ({ cardId: c.id, box: cardBoxes[c.id], label: formatCard(c), isUncertain: !!uncertainCards[c.id] }))
+    .concat(unreadable.flatMap((card, i) => card.box ? [{ cardId: `unreadable-${i}`, box: card.box, label: '?', isUncertain: true }] : []));
+
   // Calculate current values based on settings
-  const calculatedTotal = fullCards.reduce((sum, card) => sum + calculateCardScore(card, settings), 0);
+  // Score against the wild rank of the round being scanned
+  const existingRoundIndex = existingRoundId ? player.rounds.findIndex(r => r.id === existingRoundId) : -1;
+  const roundNumber = pendingScan ? pendingScan.roundNumber : existingRoundIndex >= 0 ? existingRoundIndex + 1 : player.rounds.length + 1;
+  const wildRank = getWildRank(settings, roundNumber);
+  const handIssues = findOverCounts(fullCards, deck);
+  const roundIssues = findRoundOverCounts(fullCards, getOtherHands(players, player.id, roundNumber), deck);
+
+  // Deadwood games only count what is left outside sets and runs.
+  // The search is expensive, so it only reruns when the hand or the melds change.
+  const meldAnalysis = useMemo(() => settings.handScoring === 'deadwood'
+    ? (adjustedMelds ? summarizeMelds(fullCards, adjustedMelds, settings, roundNumber) : analyzeMelds(fullCards, settings, roundNumber))
+    : null, [fullCards, adjustedMelds, settings, roundNumber]);
+  const meldedCardIds = new Set(meldAnalysis?.melds.flatMap(m => m.cardIds) || []);
+
+  const calculatedTotal = meldAnalysis
+    ? meldAnalysis.deadwoodPoints
+    : fullCards.reduce((sum, card) => sum + calculateCardScore(card, settings, roundNumber), 0);
+
+  // Live readings with nothing to check are saved without a tap; anything doubtful waits for the player,
+  // and so does a fallback reading, which could still go to the chosen reader later
+  const willAutoSave = isLive && !!result && !isProcessing && !error && !isAutoSaveStopped && !isFallbackRead && fullCards.length > 0
+    && uncertainCount === 0 && unreadable.length === 0 && handIssues.length === 0 && roundIssues.length === 0;
+
+  // The timer outlives renders; it must save the reading as it is when it fires, edits included
+  const handleSaveRef = useRef(handleSave);
+  handleSaveRef.current = handleSave;
+
+  useEffect(() => {
+    if (!willAutoSave) return;
+    const timer = window.setTimeout(() => handleSaveRef.current(), AUTO_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [willAutoSave]);
+
+  if (isEditingPhoto && originalImage) {
+    return <PhotoEditor image={originalImage} edits={photoEdits} onApply={handleApplyEdits} onCancel={handleCancelEdits} />;
+  }
 
   if (!image) {
     return (
-      <div className="flex-1 flex flex-col w-full h-full bg-black relative overflow-hidden">
-        <canvas ref={canvasRef} className="hidden" />
-        <input type="file" accept="image/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
-        {isCameraMode && !cameraError ? (
-          <>
-            <video ref={videoRef} autoPlay playsInline muted onLoadedMetadata={() => videoRef.current?.play()} className={`absolute inset-0 w-full h-full object-cover transition-transform duration-300 ${isMirrored ? 'scale-x-[-1]' : ''}`} />
-            <div className="absolute inset-0 flex flex-col justify-between p-6 z-10 bg-gradient-to-b from-black/50 via-transparent to-black/50 pointer-events-none">
-               <div className="flex justify-between items-center pointer-events-auto">
-                 <button onClick={onCancel} className="p-2 rounded-full bg-black/20 text-white backdrop-blur-md hover:bg-black/40 transition-colors">
-                   <IconX className="w-6 h-6" />
-                 </button>
-                 <span className="text-white font-semibold text-sm shadow-sm drop-shadow-md">Scan {player.name}'s Hand</span>
-                 <div className="w-10"></div>
-               </div>
-               <div className="flex items-center justify-between pointer-events-auto pb-8">
-                  <button onClick={() => fileInputRef.current?.click()} className="p-4 rounded-full text-white/80 hover:text-white transition-colors hover:bg-white/10">
-                    <IconPhoto className="w-8 h-8" />
-                  </button>
-                  <button onClick={handleCapture} className="w-20 h-20 rounded-full border-4 border-white flex items-center justify-center bg-white/20 active:bg-white/50 transition-all hover:scale-105">
-                    <div className="w-16 h-16 rounded-full bg-white"></div>
-                  </button>
-                  <div className="w-16"></div>
-               </div>
-            </div>
-          </>
-        ) : (
-          <div className="flex-1 flex flex-col items-center justify-center p-6 bg-felt-900">
-            <div className="w-24 h-24 bg-slate-800 rounded-full flex items-center justify-center mb-6"><IconCamera className="w-10 h-10 text-slate-500" /></div>
-            <h3 className="text-xl font-bold text-white mb-2">Camera Unavailable</h3>
-            <Button fullWidth onClick={() => fileInputRef.current?.click()} className="mb-4">Select Photo</Button>
-            <Button variant="secondary" fullWidth onClick={onCancel}>Cancel</Button>
-          </div>
-        )}
-      </div>
+      <CameraCapture
+        title={`Scan ${player.name}'s Hand`}
+        onCapture={handleCapture}
+        onCancel={onCancel}
+        autoCapture={isLive}
+        onAutoCaptureChange={onLiveChange}
+      />
     );
   }
 
   return (
     <div className="flex flex-col h-full bg-felt-900 overflow-hidden">
       <div className="relative h-[25dvh] bg-black shrink-0">
-        <img src={image} alt="Cards" className="w-full h-full object-contain opacity-80" />
+        <CardBoxOverlay image={image} boxes={overlayBoxes} activeCardId={activeCardId} onSelect={handleSelectBox} />
         <button onClick={handleRetake} className="absolute top-4 left-4 bg-black/50 p-2 rounded-full text-white backdrop-blur hover:bg-black/70 transition-colors">
             <IconChevronLeft className="w-5 h-5" />
         </button>
+        {originalImage && !isProcessing && (
+            <button onClick={() => setIsEditingPhoto(true)} className="absolute top-4 right-4 bg-black/50 px-3 py-2 rounded-full text-white text-xs font-bold backdrop-blur hover:bg-black/70 transition-colors">
+                Crop & Rescan
+            </button>
+        )}
       </div>
 
-      <div className="flex-1 bg-felt-900 -mt-4 rounded-t-2xl relative z-10 p-4 flex flex-col shadow-2xl border-t border-slate-800 min-h-0">
+      <div
+        onPointerDown={() => willAutoSave && setIsAutoSaveStopped(true)}
+        className="flex-1 bg-felt-900 -mt-4 rounded-t-2xl relative z-10 p-4 flex flex-col shadow-2xl border-t border-slate-800 min-h-0"
+      >
         {isProcessing ? (
           <div className="flex-1 flex flex-col items-center justify-center text-emerald-400 space-y-4">
              <div className="w-12 h-12 border-4 border-emerald-500/30 border-t-emerald-500 rounded-full animate-spin"></div>
@@ -225,11 +347,32 @@ export const ScanView: React.FC<ScanViewProps> = ({ player, settings, existingRo
         ) : error ? (
           <div className="flex-1 flex flex-col items-center justify-center text-center">
             <div className="bg-red-500/10 p-4 rounded-full mb-4"><IconX className="w-8 h-8 text-red-500" /></div>
-            <p className="text-slate-300 mb-6 max-w-xs">{error}</p>
-            <Button onClick={handleRetake} fullWidth>Try Again</Button>
+            <p className="text-slate-300 mb-6 max-w-xs">{describeRecognitionError(error)}</p>
+            {queueFailed && (
+                <p className="text-sm text-red-400 mb-6 max-w-xs">
+                    This device couldn't store the photo for later (storage full or blocked). Enter the cards by hand, or try again.
+                </p>
+            )}
+            <div className="w-full space-y-3">
+                {/* Transient failures are worth another go with the same photo */}
+                <Button onClick={() => error.isTransient ? processImage(image) : handleRetake()} fullWidth>
+                    {error.isTransient ? 'Try Again' : 'Retake Photo'}
+                </Button>
+                {/* Worth reading later, once the connection or quota is back */}
+                {canQueue && !queueFailed && (error.isTransient || error.kind === 'quota' || isFallbackRead) && (
+                    <Button variant="secondary" onClick={handleAnalyzeLater} fullWidth>
+                        Analyze Later
+                    </Button>
+                )}
+                <Button variant="secondary" onClick={() => setError(null)} fullWidth>
+                    Enter Cards by Hand
+                </Button>
+            </div>
           </div>
         ) : (
           <>
+             {result?.recognizer === 'local' && <LocalReadingNotice />}
+
              <div className="flex justify-between items-end mb-4 shrink-0">
                 <div>
                     <h3 className="text-sm text-slate-400 font-semibold uppercase tracking-wider">Total Score</h3>
@@ -243,30 +386,65 @@ export const ScanView: React.FC<ScanViewProps> = ({ player, settings, existingRo
                 </div>
              </div>
 
+             {/* Nothing found can be right (the player went out), but it's never saved without a look */}
+             {result && fullCards.length === 0 && unreadable.length === 0 && (
+                <p className="mb-3 text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-lg p-3 shrink-0">
+                    No cards found. If {player.name} went out, save this as an empty hand; otherwise add the cards or retake the photo.
+                </p>
+             )}
+             <UnreadableCards cards={unreadable} onAdd={handleEnterUnreadable} onDismiss={dismissUnreadable} />
+             <DeckWarnings handIssues={handIssues} roundIssues={roundIssues} />
+
+             {meldAnalysis && (
+                <MeldReview
+                    cards={fullCards}
+                    melds={meldAnalysis.melds}
+                    isAdjusted={adjustedMelds !== null}
+                    deadwoodPoints={meldAnalysis.deadwoodPoints}
+                    settings={settings}
+                    roundNumber={roundNumber}
+                    onBreakMeld={(index) => setAdjustedMelds(meldAnalysis.melds.filter((_, i) => i !== index))}
+                    onChangeMelds={setAdjustedMelds}
+                    onReset={() => setAdjustedMelds(null)}
+                />
+             )}
+
              <div className="flex-1 overflow-y-auto mb-4 bg-slate-800/50 rounded-xl p-3 border border-slate-700/50 custom-scrollbar flex flex-col min-h-0">
                 <h4 className="text-xs text-slate-500 uppercase font-bold mb-3 flex items-center gap-2">
                     <IconCheck className="w-4 h-4 text-emerald-500" />
                     Breakdown
+                    {uncertainCount > 0 && (
+                        <span className="ml-auto normal-case font-medium text-amber-400">
+                            {uncertainCount} {uncertainCount === 1 ? 'card needs' : 'cards need'} a check
+                        </span>
+                    )}
                 </h4>
                 <ul className="space-y-2 flex-1">
                     {fullCards.map((card) => (
-                        <li key={card.id} className="flex justify-between items-center text-slate-200 border-b border-slate-700/30 last:border-0 pb-2 last:pb-0 min-h-[48px]">
+                        <li
+                            key={card.id}
+                            id={`scan-card-${card.id}`}
+                            onClick={() => setFocusedCardId(card.id)}
+                            className={`flex flex-wrap justify-between items-center text-slate-200 border-b border-slate-700/30 last:border-0 pb-2 last:pb-0 min-h-[48px] ${
+                                uncertainCards[card.id] ? 'bg-amber-500/10 border-l-2 border-l-amber-400 pl-2 pt-2 rounded-r' : ''
+                            } ${activeCardId === card.id && cardBoxes[card.id] ? 'ring-1 ring-emerald-500/50 rounded' : ''}`}
+                        >
                             {editingCardId === card.id ? (
                                 <div className="flex items-center gap-2 flex-1">
                                     <select 
                                         value={card.rank} 
-                                        onChange={(e) => handleUpdateCard(card.id, 'rank', e.target.value)}
+                                        onChange={(e) => handleUpdateCard(card.id, { rank: e.target.value as CardRank })}
                                         className="bg-slate-700 text-white rounded px-2 py-1 text-sm font-bold border border-slate-600 focus:border-emerald-500 outline-none w-16 text-center"
                                     >
-                                        {RANKS.map(r => <option key={r} value={r}>{r}</option>)}
+                                        {deckRanks.map(r => <option key={r} value={r}>{r}</option>)}
                                     </select>
                                     <span className="text-slate-500 text-xs">of</span>
                                     <select 
                                         value={card.suit} 
-                                        onChange={(e) => handleUpdateCard(card.id, 'suit', e.target.value)}
+                                        onChange={(e) => handleUpdateCard(card.id, { suit: e.target.value as CardSuit })}
                                         className="bg-slate-700 text-white rounded px-2 py-1 text-sm font-bold border border-slate-600 focus:border-emerald-500 outline-none flex-1"
                                     >
-                                        {SUITS.map(s => <option key={s} value={s}>{s}</option>)}
+                                        {deckSuits.map(s => <option key={s} value={s}>{s}</option>)}
                                     </select>
                                     <button 
                                         onClick={() => setEditingCardId(null)}
@@ -290,7 +468,7 @@ export const ScanView: React.FC<ScanViewProps> = ({ player, settings, existingRo
                                         )}
                                     </div>
                                     <div className="flex items-center gap-3">
-                                        <span className="text-sm font-mono text-emerald-400">+{calculateCardScore(card, settings)}</span>
+                                        <CardPoints score={scoreCard(card, settings, roundNumber)} isMelded={meldedCardIds.has(card.id)} />
                                         <div className="flex gap-1">
                                             <button onClick={() => setEditingCardId(card.id)} className="p-1 text-slate-500 hover:text-white">
                                                 <IconPencil className="w-4 h-4" />
@@ -300,6 +478,15 @@ export const ScanView: React.FC<ScanViewProps> = ({ player, settings, existingRo
                                             </button>
                                         </div>
                                     </div>
+                                    {uncertainCards[card.id] && (
+                                        <div className="basis-full">
+                                            <UncertainCard
+                                                reading={uncertainCards[card.id]}
+                                                onPick={(alternative) => handlePickAlternative(card.id, alternative)}
+                                                onConfirm={() => markChecked(card.id)}
+                                            />
+                                        </div>
+                                    )}
                                 </>
                             )}
                         </li>
@@ -317,12 +504,33 @@ export const ScanView: React.FC<ScanViewProps> = ({ player, settings, existingRo
              </div>
 
              <div className="space-y-3 shrink-0">
-                <Button onClick={handleSave} fullWidth>
-                    {existingRoundId ? 'Update Score' : 'Save Score'}
+                {willAutoSave && (
+                    <p className="text-xs text-center text-emerald-300 animate-pulse">
+                        Saving{nextPlayerName ? ` and moving on to ${nextPlayerName}` : ''} in a moment. Tap to review first.
+                    </p>
+                )}
+                <Button onClick={handleSave} fullWidth disabled={isSaving}>
+                    {existingRoundId ? 'Update Score' : nextPlayerName ? `Save & Scan ${nextPlayerName}` : 'Save Score'}
                 </Button>
+                {/* The chosen cloud reader does better than the on-device one; the photo can wait for it */}
+                {isFallbackRead && canQueue && !queueFailed && (
+                    <Button variant="secondary" onClick={handleAnalyzeLater} fullWidth>
+                        Analyze Later with the Cloud Reader
+                    </Button>
+                )}
+                {isFallbackRead && queueFailed && (
+                    <p className="text-xs text-center text-red-400">
+                        This device couldn't store the photo for later. Check the cards above and save them.
+                    </p>
+                )}
                 <Button variant="secondary" onClick={onCancel} fullWidth>
-                    Cancel
+                    {pendingScan ? 'Decide Later' : 'Cancel'}
                 </Button>
+                {pendingScan && onDiscardPending && (
+                    <Button variant="ghost" onClick={onDiscardPending} fullWidth>
+                        Discard Photo
+                    </Button>
+                )}
              </div>
           </>
         )}
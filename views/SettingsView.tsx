@@ -3,20 +3,87 @@ import React, { useState } from 'react';
 import { CardSettings } from '../types';
 import { Button } from '../components/Button';
 import { IconChevronLeft } from '../components/Icons';
+import { getPreset } from '../utils/gamePresets';
+import { hasRulesetChanges } from '../utils/rulesetUtils';
+import { FACE_VALUES } from '../utils/scoringUtils';
+import { DeckDefinition, getDeck, getDeckRanks, getGameDeck } from '../utils/deckDefinitions';
+import { PointsInput } from '../components/settings/PointsInput';
+import { CardRulesEditor } from '../components/settings/CardRulesEditor';
+import { TotalRulesEditor } from '../components/settings/TotalRulesEditor';
+import { BidScoringEditor } from '../components/settings/BidScoringEditor';
+import { WildCardsEditor } from '../components/settings/WildCardsEditor';
+import { EndConditionEditor } from '../components/settings/EndConditionEditor';
+import { DeckEditor } from '../components/settings/DeckEditor';
+import { RecognizerEditor } from '../components/settings/RecognizerEditor';
+import { loadRecognizerSettings, saveRecognizerSettings } from '../services/recognitionService';
+import { loadPhotoRetention, savePhotoRetention, applyPhotoRetention } from '../services/scanPhotos';
+import { PhotoStorageEditor } from '../components/settings/PhotoStorageEditor';
+
+// A rank's value in a fresh game with this deck: the deck's own, else the standard face value
+const deckDefaultValue = (deck: DeckDefinition, rank: string): number => deck.rankValues[rank] ?? FACE_VALUES[rank] ?? 0;
 
 interface SettingsViewProps {
   settings: CardSettings;
-  onSave: (settings: CardSettings) => void;
+  hasRounds?: boolean;
+  onSave: (settings: CardSettings, rescoreAll?: boolean) => void;
   onCancel: () => void;
   isClient?: boolean;
   onLeave?: () => void;
 }
 
-export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSave, onCancel, isClient, onLeave }) => {
+export const SettingsView: React.FC<SettingsViewProps> = ({ settings, hasRounds = false, onSave, onCancel, isClient, onLeave }) => {
   const [formData, setFormData] = useState<CardSettings>(settings);
+  const [rescoreAll, setRescoreAll] = useState(false);
+  const [recognizer, setRecognizer] = useState(loadRecognizerSettings);
+  const [photoRetention, setPhotoRetention] = useState(loadPhotoRetention);
+
+  // Scoring changes only reach rounds entered from now on, unless the host re-scores everything
+  const showRescoreChoice = !isClient && hasRounds && hasRulesetChanges(settings, formData);
 
   const handleChange = (field: keyof CardSettings, value: any) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
+    // Any manual tweak means the rules no longer match a preset
+    setFormData(prev => ({ ...prev, [field]: value, presetId: undefined }));
+  };
+
+  const handleRankValueChange = (rank: string, value: number) => {
+    handleChange('rankValues', { ...formData.rankValues, [rank]: value });
+  };
+
+  // Ranks the new deck brings start at the deck's own values; existing ones are kept
+  const handleDeckChange = (deckId: string) => {
+    const deck = getDeck(deckId);
+    const rankValues = { ...formData.rankValues };
+    getDeckRanks(deck).forEach(rank => {
+      if (rankValues[rank] === undefined) rankValues[rank] = deckDefaultValue(deck, rank);
+    });
+    // Stripped ranks and suits belong to the old deck; the number of decks carries over
+    setFormData(prev => ({
+      ...prev,
+      deckId,
+      rankValues,
+      deckComposition: { ...prev.deckComposition, ranks: undefined, suits: undefined },
+      presetId: undefined
+    }));
+  };
+
+  // Back to the deck's own values, dropping ranks it doesn't have; jokers have no face value and keep theirs
+  const handleResetValues = () => {
+    const deck = getDeck(formData.deckId);
+    handleChange('rankValues', Object.fromEntries(getDeckRanks(deck).map(rank => [
+      rank, rank === 'Joker' ? formData.rankValues.Joker ?? 0 : deckDefaultValue(deck, rank)
+    ])));
+  };
+
+  const activePreset = getPreset(formData.presetId);
+  const deckRanks = getDeckRanks(getGameDeck(formData));
+  // Values left over from another deck; they score nothing here but would come back with that deck
+  const allDeckRanks: string[] = getDeckRanks(getDeck(formData.deckId));
+  const strayRanks = Object.keys(formData.rankValues).filter(rank => !allDeckRanks.includes(rank));
+
+  const clearStrayRanks = () => {
+    handleChange('rankValues', Object.fromEntries(
+      Object.entries(formData.rankValues).filter(([rank]) => allDeckRanks.includes(rank))
+    ));
   };
 
   return (
@@ -29,6 +96,10 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSave, on
       </div>
 
       <div className="p-6 space-y-6 overflow-y-auto flex-1">
+
+        <p className="text-xs text-slate-500 -mb-2">
+            {activePreset ? `Based on the ${activePreset.name} preset.` : 'Custom rules.'}
+        </p>
         
         {/* Winning Condition */}
         <div className="space-y-2">
@@ -64,139 +135,155 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSave, on
             </p>
         </div>
 
-        {/* Number Cards */}
+        {/* Game End */}
         <div className="space-y-2">
-          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Number Cards (2-10)</label>
-          <div className="flex gap-2 p-1 bg-slate-800 rounded-lg">
-            <button
-              type="button"
-              onClick={() => handleChange('numberCardBehavior', 'face')}
-              className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${
-                formData.numberCardBehavior === 'face' 
-                  ? 'bg-emerald-600 text-white shadow-lg' 
-                  : 'text-slate-400 hover:text-slate-200'
-              }`}
-            >
-              Face Value
-            </button>
+          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Game Ends</label>
+          <EndConditionEditor
+            endCondition={formData.endCondition}
+            winningScoreType={formData.winningScoreType}
+            onChange={(endCondition) => handleChange('endCondition', endCondition)}
+          />
+        </div>
+
+        {/* Bids & Tricks */}
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Round Scoring</label>
+          <BidScoringEditor scoring={formData.bidScoring} onChange={(bidScoring) => handleChange('bidScoring', bidScoring)} />
+          <p className="text-xs text-slate-500">
+            {formData.bidScoring.enabled
+              ? 'Players enter a bid and the tricks they took (Spades, Oh Hell, Wizard). Bags add up across rounds.'
+              : 'Rounds are scored from the cards left in hand.'}
+          </p>
+        </div>
+
+        {/* Deck */}
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Deck</label>
+          <DeckEditor
+            deckId={formData.deckId}
+            composition={formData.deckComposition}
+            onDeckChange={handleDeckChange}
+            onCompositionChange={(deckComposition) => handleChange('deckComposition', deckComposition)}
+          />
+          <p className="text-xs text-slate-500">
+            Scans only look for cards in play, and flag more copies of a card than the decks hold.
+          </p>
+        </div>
+
+        {/* Card Values */}
+        <div className="space-y-2">
+          <div className="flex justify-between items-end">
+            <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Card Values</label>
             <button
               type="button"
-              onClick={() => handleChange('numberCardBehavior', 'fixed')}
-              className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${
-                formData.numberCardBehavior === 'fixed' 
-                  ? 'bg-emerald-600 text-white shadow-lg' 
-                  : 'text-slate-400 hover:text-slate-200'
-              }`}
+              onClick={handleResetValues}
+              className="text-xs text-slate-400 hover:text-white"
             >
-              Fixed Value
+              Reset to Deck Values
             </button>
           </div>
-          
-          {formData.numberCardBehavior === 'fixed' && (
-            <div className="mt-2">
-               <label className="text-xs text-slate-400">Points per number card</label>
-               <input 
-                 type="number" 
-                 value={formData.fixedNumberValue || 5}
-                 onChange={(e) => handleChange('fixedNumberValue', parseInt(e.target.value))}
-                 className="w-full mt-1 bg-slate-800 border border-slate-700 rounded px-3 py-2"
-               />
+          <div className="grid grid-cols-4 gap-2">
+            {deckRanks.map(rank => (
+              <PointsInput
+                key={rank}
+                label={rank}
+                value={formData.rankValues[rank] ?? 0}
+                onChange={(value) => handleRankValueChange(rank, value)}
+              />
+            ))}
+          </div>
+          {strayRanks.length > 0 && (
+            <div className="flex items-start justify-between gap-3 text-xs text-slate-500">
+              <span>
+                Not in this deck: {strayRanks.map(rank => `${rank} ${formData.rankValues[rank]}`).join(', ')}
+              </span>
+              <button type="button" onClick={clearStrayRanks} className="shrink-0 text-slate-400 hover:text-white">
+                Clear
+              </button>
             </div>
           )}
           <p className="text-xs text-slate-500">
-            {formData.numberCardBehavior === 'face' 
-              ? 'Example: A 5 of Hearts is worth 5 points.' 
-              : `Example: Any number card is worth ${formData.fixedNumberValue || 5} points.`}
+            Points each card is worth. Negative values are allowed (e.g. 2s in Golf).
           </p>
         </div>
 
-        {/* Face Cards */}
+        {/* Wild Cards */}
         <div className="space-y-2">
-          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Face Cards (K, Q, J)</label>
+          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Wild Cards</label>
+          <WildCardsEditor wildCards={formData.wildCards} onChange={(wildCards) => handleChange('wildCards', wildCards)} />
+          <p className="text-xs text-slate-500">
+            A wild left in hand is worth the wild points instead of its normal value.
+          </p>
+        </div>
+
+        {/* Hand Scoring */}
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Scanned Hands</label>
           <div className="flex gap-2 p-1 bg-slate-800 rounded-lg">
             <button
               type="button"
-              onClick={() => handleChange('faceCardBehavior', 'face')}
+              onClick={() => handleChange('handScoring', 'all')}
               className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${
-                formData.faceCardBehavior === 'face' 
-                  ? 'bg-emerald-600 text-white shadow-lg' 
+                formData.handScoring === 'all'
+                  ? 'bg-emerald-600 text-white shadow-lg'
                   : 'text-slate-400 hover:text-slate-200'
               }`}
             >
-              Face Value
+              Count All Cards
             </button>
             <button
               type="button"
-              onClick={() => handleChange('faceCardBehavior', 'fixed')}
+              onClick={() => handleChange('handScoring', 'deadwood')}
               className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${
-                formData.faceCardBehavior === 'fixed' 
-                  ? 'bg-emerald-600 text-white shadow-lg' 
+                formData.handScoring === 'deadwood'
+                  ? 'bg-emerald-600 text-white shadow-lg'
                   : 'text-slate-400 hover:text-slate-200'
               }`}
             >
-              Fixed Value
+              Deadwood Only
             </button>
           </div>
+          <p className="text-xs text-slate-500">
+            {formData.handScoring === 'deadwood'
+              ? 'Sets and runs are found automatically and only the leftover cards count (e.g. Gin Rummy).'
+              : 'Every scanned card counts toward the score.'}
+          </p>
+        </div>
 
-          {formData.faceCardBehavior === 'fixed' && (
-             <div className="mt-2">
-               <label className="text-xs text-slate-400">Points per face card</label>
-               <div className="flex items-center gap-4 bg-slate-800 p-4 rounded-lg border border-slate-700 mt-1">
-                 <span className="text-2xl font-bold text-slate-200">{formData.fixedFaceValue || 10}</span>
-                 <input 
-                   type="range" 
-                   min="0" 
-                   max="50" 
-                   step="1"
-                   value={formData.fixedFaceValue || 10}
-                   onChange={(e) => handleChange('fixedFaceValue', parseInt(e.target.value))}
-                   className="flex-1 accent-emerald-500 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer"
-                 />
-                 <span className="text-sm text-slate-400 w-12 text-right">Points</span>
-               </div>
-            </div>
-          )}
-          <p className="text-xs text-slate-500 mt-1">
-            {formData.faceCardBehavior === 'face' 
-              ? 'Jack = 11, Queen = 12, King = 13.' 
-              : `Example: Any King, Queen, or Jack is worth ${formData.fixedFaceValue || 10} points.`}
+        {/* Special Cards */}
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Special Cards</label>
+          <CardRulesEditor rules={formData.cardRules} onChange={(rules) => handleChange('cardRules', rules)} />
+          <p className="text-xs text-slate-500">
+            Score by suit, color or one exact card. Rules apply top to bottom after the values above.
           </p>
         </div>
 
-        {/* Aces */}
+        {/* Total Rules */}
         <div className="space-y-2">
-          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Aces</label>
-          <div className="flex items-center gap-4 bg-slate-800 p-4 rounded-lg border border-slate-700">
-            <span className="text-2xl font-bold text-slate-200">{formData.aceValue}</span>
-            <input 
-              type="range" 
-              min="0" 
-              max="50" 
-              step="1"
-              value={formData.aceValue}
-              onChange={(e) => handleChange('aceValue', parseInt(e.target.value))}
-              className="flex-1 accent-emerald-500 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer"
-            />
-            <span className="text-sm text-slate-400 w-12 text-right">Points</span>
-          </div>
+          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Total Rules</label>
+          <TotalRulesEditor rules={formData.totalRules} onChange={(rules) => handleChange('totalRules', rules)} />
+          <p className="text-xs text-slate-500">
+            Adjust a player's running total after each round, top to bottom (e.g. landing on exactly 50 resets to 0).
+          </p>
         </div>
 
-        {/* Jokers */}
+        {/* Card Recognition (per device, so clients can change it too) */}
         <div className="space-y-2">
-          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Jokers</label>
-          <div className="flex items-center gap-4 bg-slate-800 p-4 rounded-lg border border-slate-700">
-            <span className="text-2xl font-bold text-slate-200">{formData.jokerValue}</span>
-            <input 
-              type="range" 
-              min="0" 
-              max="100" 
-              step="5"
-              value={formData.jokerValue}
-              onChange={(e) => handleChange('jokerValue', parseInt(e.target.value))}
-              className="flex-1 accent-emerald-500 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer"
-            />
-            <span className="text-sm text-slate-400 w-12 text-right">Points</span>
-          </div>
+          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Card Recognition</label>
+          <RecognizerEditor settings={recognizer} onChange={setRecognizer} />
+          <p className="text-xs text-slate-500">
+            Which service reads scanned photos on this device. The mock returns fixed hands without a network.
+          </p>
+        </div>
+
+        {/* Scan Photos (per device, like the recognizer) */}
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-emerald-400 uppercase tracking-wider">Scan Photos</label>
+          <PhotoStorageEditor retention={photoRetention} onChange={setPhotoRetention} />
+          <p className="text-xs text-slate-500">
+            A small copy of each scanned hand stays with its round, to check the cards later. Only on this device.
+          </p>
         </div>
 
         {isClient && onLeave && (
@@ -211,8 +298,34 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSave, on
 
       </div>
 
-      <div className="p-4 border-t border-slate-800 bg-felt-900">
-        <Button fullWidth onClick={() => onSave(formData)}>
+      <div className="p-4 border-t border-slate-800 bg-felt-900 space-y-3">
+        {showRescoreChoice && (
+          <div className="flex gap-2 p-1 bg-slate-800 rounded-lg">
+            {([[false, 'Future Rounds'], [true, 'Re-score All']] as [boolean, string][]).map(([value, label]) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => setRescoreAll(value)}
+                className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${
+                  rescoreAll === value ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+        {showRescoreChoice && (
+          <p className="text-xs text-slate-500 text-center">
+            {rescoreAll ? 'Every round so far is recalculated with the new rules.' : 'Rounds already played keep the rules they were scored with.'}
+          </p>
+        )}
+        <Button fullWidth onClick={() => {
+          saveRecognizerSettings(recognizer);
+          savePhotoRetention(photoRetention);
+          applyPhotoRetention(photoRetention).catch(e => console.error('Failed to clear old scan photos', e));
+          onSave(formData, showRescoreChoice && rescoreAll);
+        }}>
           {isClient ? "Close" : "Save Rules"}
         </Button>
       </div>
@@ -1,11 +1,14 @@
 
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Player, CardSettings } from '../types';
+import { Player, CardSettings, Team } from '../types';
 import { Button } from '../components/Button';
 import { IconTrash, IconSettings, IconPlus, IconQrCode, IconCheck } from '../components/Icons';
 import { v4 as uuidv4 } from 'uuid';
 import { calculatePlayerTotal } from '../utils/scoringUtils';
+import { PresetPicker } from '../components/PresetPicker';
+import { TeamsEditor } from '../components/TeamsEditor';
+import { migrateSettings } from '../hooks/useGameState';
 
 interface SetupViewProps {
   onStart: (players: Player[]) => void;
@@ -13,6 +16,10 @@ interface SetupViewProps {
   onOpenMultiplayer: () => void;
   isClient: boolean;
   players: Player[]; // existing roster
+  teams: Team[];
+  onUpdateTeams: (teams: Team[]) => void;
+  settings: CardSettings;
+  onApplyPreset: (settings: CardSettings) => void;
   onClearSession?: () => void;
   onRemovePlayer?: (id: string) => void;
 }
@@ -23,12 +30,16 @@ export const SetupView: React.FC<SetupViewProps> = ({
   onOpenMultiplayer,
   isClient,
   players,
+  teams,
+  onUpdateTeams,
+  settings,
+  onApplyPreset,
   onClearSession,
   onRemovePlayer
 }) => {
   const [names, setNames] = useState<string[]>(['']);
   const [joined, setJoined] = useState(false);
-  const [lastGame, setLastGame] = useState<{players: Player[], settings: CardSettings, timestamp: number} | null>(null);
+  const [lastGame, setLastGame] = useState<{players: Player[], settings: CardSettings, timestamp: number, winnerIds?: string[]} | null>(null);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [myPlayerIds, setMyPlayerIds] = useState<Set<string>>(() => {
     try {
@@ -48,7 +59,8 @@ export const SetupView: React.FC<SetupViewProps> = ({
       const stored = localStorage.getItem('snapscore_last_game');
       if (stored) {
           try {
-              setLastGame(JSON.parse(stored));
+              const parsed = JSON.parse(stored);
+              setLastGame({ ...parsed, settings: migrateSettings(parsed.settings) });
           } catch (e) {
               console.error("Failed to parse last game", e);
           }
@@ -205,6 +217,14 @@ export const SetupView: React.FC<SetupViewProps> = ({
             )}
         </div>
 
+        {/* Rule Presets (Clients can see the rules but only the host picks them) */}
+        <PresetPicker settings={settings} onApply={onApplyPreset} disabled={isClient} />
+
+        {/* Partnerships (host only, like the rules) */}
+        {(!isClient || teams.length > 0) && (
+            <TeamsEditor players={players} teams={teams} onChange={onUpdateTeams} disabled={isClient} />
+        )}
+
         {/* Add Player Form */}
         <div className="pb-2"> {/* Extra padding for focus rings */}
             <h2 className="text-xl text-emerald-400 font-semibold mb-4">
@@ -266,21 +286,24 @@ export const SetupView: React.FC<SetupViewProps> = ({
                     </div>
                     <ul className="space-y-2">
                         {lastGame.players
-                            .map(p => ({...p, score: calculatePlayerTotal(p, lastGame.settings)}))
+                            .map(p => ({...p, score: calculatePlayerTotal(p, lastGame.settings), isWinner: !!lastGame.winnerIds?.includes(p.id)}))
                             .sort((a, b) => {
-                                // Sort based on winning condition
+                                // Recorded winners first, then based on winning condition
+                                if (a.isWinner !== b.isWinner) return a.isWinner ? -1 : 1;
                                 if (lastGame.settings.winningScoreType === 'highest') return b.score - a.score;
                                 return a.score - b.score;
                             })
+                            // Older saves have no recorded winners, so the top score stands in
+                            .map((p, i) => ({...p, isWinner: lastGame.winnerIds ? p.isWinner : i === 0}))
                             .map((p, i) => (
                             <li key={p.id} className="flex justify-between items-center">
                                 <div className="flex items-center gap-2">
-                                    <span className={`text-xs font-bold w-5 h-5 flex items-center justify-center rounded-full ${i === 0 ? 'bg-gold-500/20 text-gold-400' : 'bg-slate-700 text-slate-400'}`}>
+                                    <span className={`text-xs font-bold w-5 h-5 flex items-center justify-center rounded-full ${p.isWinner ? 'bg-gold-500/20 text-gold-400' : 'bg-slate-700 text-slate-400'}`}>
                                         {i + 1}
                                     </span>
                                     <span className="text-slate-300 text-sm">{p.name}</span>
                                 </div>
-                                <span className={`font-mono font-bold ${i === 0 ? 'text-gold-400' : 'text-slate-400'}`}>
+                                <span className={`font-mono font-bold ${p.isWinner ? 'text-gold-400' : 'text-slate-400'}`}>
                                     {p.score}
                                 </span>
                             </li>
@@ -0,0 +1,500 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Player, CardSettings, DetectedCard, Round, RecognizedCard, CardReading, CardRank, CardSuit, PendingScan, RecognizerBackend, ScanResult, UnreadableCard } from '../types';
+import { Button } from '../components/Button';
+import { IconChevronLeft, IconX, IconTrash, IconPlus } from '../components/Icons';
+import { analyzeHand, isLowConfidence, isUsingFallback, loadRecognizerSettings } from '../services/recognitionService';
+import { RecognitionError, toRecognitionError, describeRecognitionError } from '../services/recognitionErrors';
+import { saveScanPhoto } from '../services/scanPhotos';
+import { applyPhotoEdits } from '../services/photoPipeline';
+import { PhotoEdits, DEFAULT_PHOTO_EDITS } from '../services/photoEdits';
+import { calculateCardScore, formatCard } from '../utils/scoringUtils';
+import { analyzeMelds } from '../utils/meldUtils';
+import { getGameDeck, getDeckRanks, getDeckSuits } from '../utils/deckDefinitions';
+import { findOverCounts } from '../utils/deckValidation';
+import { clusterCards, assignSeats, loadSeats, saveSeats, SeatPosition } from '../utils/tableScanUtils';
+import { CardBoxOverlay } from '../components/scan/CardBoxOverlay';
+import { CameraCapture, CaptureSource } from '../components/scan/CameraCapture';
+import { PhotoEditor } from '../components/scan/PhotoEditor';
+import { UncertainCard } from '../components/scan/UncertainCard';
+import { LocalReadingNotice } from '../components/scan/LocalReadingNotice';
+import { UnreadableCards } from '../components/scan/UnreadableCards';
+import { DeckWarnings } from '../components/scan/DeckWarnings';
+import { v4 as uuidv4 } from 'uuid';
+
+interface TableHand {
+  id: string;
+  cards: DetectedCard[];
+  center: SeatPosition | null;
+  playerId: string | null;
+}
+
+interface TableScanViewProps {
+  players: Player[]; // Everyone who can still play a round
+  settings: CardSettings;
+  pendingScan?: PendingScan; // A queued photo of the table to read now, or to review once it has been read
+  onComplete: (rounds: { playerId: string; round: Round }[]) => void;
+  onCancel: () => void;
+  onAnalyzeLater?: (image: string, roundNumber: number) => Promise<void>; // Rejects if the photo couldn't be stored
+  onDiscardPending?: () => void;
+}
+
+// One color per hand, on the photo and in the list
+const HAND_COLORS = ['#38bdf8', '#f472b6', '#a78bfa', '#fb923c', '#2dd4bf', '#facc15', '#f87171', '#a3e635'];
+
+const scoreHand = (cards: DetectedCard[], settings: CardSettings, roundNumber: number) => {
+  const meldAnalysis = settings.handScoring === 'deadwood' ? analyzeMelds(cards, settings, roundNumber) : null;
+  const total = meldAnalysis
+    ? meldAnalysis.deadwoodPoints
+    : cards.reduce((sum, card) => sum + calculateCardScore(card, settings, roundNumber), 0);
+  return { total, melds: meldAnalysis?.melds };
+};
+
+export const TableScanView: React.FC<TableScanViewProps> = ({
+  players, settings, pendingScan, onComplete, onCancel, onAnalyzeLater, onDiscardPending
+}) => {
+  const [image, setImage] = useState<string | null>(pendingScan?.image ?? null); // What is read: the photo after edits
+  const [originalImage, setOriginalImage] = useState<string | null>(pendingScan?.image ?? null); // Kept for re-cropping
+  const [photoEdits, setPhotoEdits] = useState<PhotoEdits>(DEFAULT_PHOTO_EDITS);
+  const [isEditingPhoto, setIsEditingPhoto] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const isSavingRef = useRef(false); // Guards a second tap before the state catches up
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<RecognitionError | null>(null);
+  const [hands, setHands] = useState<TableHand[]>([]);
+  const [readings, setReadings] = useState<Record<string, RecognizedCard>>({}); // Full readings by card id
+  const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
+  const [checkedCardIds, setCheckedCardIds] = useState<Set<string>>(new Set());
+  const [recognizer, setRecognizer] = useState<RecognizerBackend | undefined>(undefined);
+  const [unreadable, setUnreadable] = useState<UnreadableCard[]>([]);
+  const [queueFailed, setQueueFailed] = useState(false); // The photo couldn't be stored for later
+  const [isFallbackRead, setIsFallbackRead] = useState(false); // Read on the device because the chosen cloud reader couldn't run
+  const scanController = useRef<AbortController | null>(null);
+
+  // Leaving the view stops the scan; nobody is waiting for its answer anymore
+  useEffect(() => () => scanController.current?.abort(), []);
+
+  // Queued photos open on their reading if there is one, otherwise they're read now
+  useEffect(() => {
+    if (!pendingScan) return;
+    if (pendingScan.result) applyResult(pendingScan.result);
+    else processImage(pendingScan.image);
+  }, []);
+
+  const handleCapture = (dataUrl: string, source: CaptureSource) => {
+    setOriginalImage(dataUrl);
+    setPhotoEdits(DEFAULT_PHOTO_EDITS);
+    if (source === 'library') {
+      setIsEditingPhoto(true);
+      return;
+    }
+    setImage(dataUrl);
+    processImage(dataUrl);
+  };
+
+  // Every edit starts from the original, so a re-crop never loses what an earlier crop cut off
+  const handleApplyEdits = async (edits: PhotoEdits) => {
+    if (!originalImage) return;
+    setPhotoEdits(edits);
+    setIsEditingPhoto(false);
+    clearReading();
+    // Should the edit fail, the whole photo is still worth reading
+    const edited = await applyPhotoEdits(originalImage, edits).catch(() => originalImage);
+    setImage(edited);
+    processImage(edited);
+  };
+
+  // A fresh pick goes back to the camera; a re-crop goes back to the reading it came from
+  const handleCancelEdits = () => {
+    setIsEditingPhoto(false);
+    if (!image) setOriginalImage(null);
+  };
+
+  const processImage = async (base64: string) => {
+    const fallback = isUsingFallback(loadRecognizerSettings());
+    // Offline, the photo waits for the chosen cloud reader rather than settling for the on-device one
+    if (fallback && !navigator.onLine && canQueue && await queuePhoto(base64)) return;
+    scanController.current?.abort();
+    const controller = new AbortController();
+    scanController.current = controller;
+    setIsProcessing(true);
+    setError(null);
+    setIsFallbackRead(fallback);
+    try {
+      applyResult(await analyzeHand(base64, getGameDeck(settings), controller.signal));
+    } catch (err) {
+      const failure = toRecognitionError(err);
+      // Cancelled scans belong to a photo that's gone (retake) or a view that's closed
+      if (failure.kind !== 'cancelled') setError(failure);
+    } finally {
+      if (scanController.current === controller) {
+        scanController.current = null;
+        setIsProcessing(false);
+      }
+    }
+  };
+
+  const applyResult = (data: ScanResult) => {
+    const groups = clusterCards(data.cards, players.length);
+    const seating = assignSeats(groups, players, loadSeats());
+    const byId: Record<string, RecognizedCard> = {};
+    setHands(groups.map((group, g) => ({
+      id: uuidv4(),
+      cards: group.cards.map(card => {
+          const id = uuidv4();
+          byId[id] = card;
+          return { rank: card.rank, suit: card.suit, id };
+      }),
+      center: group.center,
+      playerId: seating[g]
+    })));
+    setReadings(byId);
+    setRecognizer(data.recognizer);
+    setUnreadable(data.unreadable || []);
+  };
+
+  // Queued photos are already on their way; a rescan of one is read straight away
+  const canQueue = !!onAnalyzeLater && !pendingScan;
+
+  // If the device won't store the photo, it stays here so the hands can still be entered by hand
+  const queuePhoto = async (photo: string): Promise<boolean> => {
+    if (!onAnalyzeLater) return false;
+    setQueueFailed(false);
+    try {
+      await onAnalyzeLater(photo, tableRound);
+      return true;
+    } catch (e) {
+      console.error('Failed to queue photo', e);
+      setQueueFailed(true);
+      return false;
+    }
+  };
+
+  const handleAnalyzeLater = () => {
+    if (image) queuePhoto(image);
+  };
+
+  // Without a reading, everyone still to score gets an empty hand to fill in
+  const handleEnterByHand = () => {
+    setError(null);
+    setHands(players.filter(p => !hasScoredRound(p)).map(p => ({ id: uuidv4(), cards: [], center: null, playerId: p.id })));
+  };
+
+  const handleAddHand = () => setHands([...hands, { id: uuidv4(), cards: [], center: null, playerId: null }]);
+
+  const handleRetake = () => {
+    setImage(null);
+    setOriginalImage(null);
+    setPhotoEdits(DEFAULT_PHOTO_EDITS);
+    clearReading();
+  };
+
+  // Forgets the reading but keeps the photo
+  const clearReading = () => {
+    scanController.current?.abort();
+    setHands([]);
+    setReadings({});
+    setError(null);
+    setSelectedCardId(null);
+    setCheckedCardIds(new Set());
+    setRecognizer(undefined);
+    setUnreadable([]);
+    setQueueFailed(false);
+    setIsFallbackRead(false);
+  };
+
+  const updateHand = (handId: string, change: Partial<TableHand>) => {
+      setHands(hands.map(h => h.id === handId ? { ...h, ...change } : h));
+  };
+
+  const markChecked = (cardId: string) => setCheckedCardIds(new Set(checkedCardIds).add(cardId));
+
+  const handleRemoveCard = (hand: TableHand, cardId: string) => {
+      updateHand(hand.id, { cards: hand.cards.filter(c => c.id !== cardId) });
+      setSelectedCardId(null);
+  };
+
+  // Any edit counts as the player having checked the card
+  const handleUpdateCard = (hand: TableHand, cardId: string, change: Partial<CardReading>) => {
+      updateHand(hand.id, { cards: hand.cards.map(c => c.id === cardId ? { ...c, ...change } : c) });
+      markChecked(cardId);
+  };
+
+  const handlePickAlternative = (hand: TableHand, cardId: string, alternative: CardReading) =>
+      handleUpdateCard(hand, cardId, { rank: alternative.rank, suit: alternative.suit });
+
+  // A card the recognizer missed: a blank one, selected so it can be set right away
+  const handleAddCard = (hand: TableHand) => {
+      const card: DetectedCard = { id: uuidv4(), rank: deckRanks[0], suit: deckSuits[0] };
+      updateHand(hand.id, { cards: [...hand.cards, card] });
+      setSelectedCardId(card.id);
+  };
+
+  // Fixes a card clustered into the wrong hand; with no target it starts a hand of its own
+  const handleMoveCard = (hand: TableHand, cardId: string, targetId: string | null) => {
+      const card = hand.cards.find(c => c.id === cardId);
+      if (!card) return;
+      const remaining = hands.map(h => h.id === hand.id ? { ...h, cards: h.cards.filter(c => c.id !== cardId) } : h);
+      setHands(targetId
+        ? remaining.map(h => h.id === targetId ? { ...h, cards: [...h.cards, card] } : h)
+        : [...remaining, { id: uuidv4(), cards: [card], center: null, playerId: null }]);
+  };
+
+  // The round the photo is for: the first one somebody at the table has no score for yet.
+  // Whoever already entered it (by hand or with a scan of their own) keeps that score.
+  const tableRound = pendingScan
+    ? pendingScan.roundNumber
+    : players.length > 0 ? Math.min(...players.map(p => p.rounds.length)) + 1 : 1;
+  const hasScoredRound = (player: Player) => player.rounds.length >= tableRound;
+
+  // Hands given to the same player are scored together. The meld search behind deadwood scoring
+  // is expensive, so scores only change with the hands, not with every tap on a card.
+  const { cardsByPlayer, scores } = useMemo(() => {
+      const cardsByPlayer = new Map<string, DetectedCard[]>();
+      hands.forEach(hand => {
+          if (!hand.playerId || hand.cards.length === 0) return;
+          cardsByPlayer.set(hand.playerId, [...(cardsByPlayer.get(hand.playerId) || []), ...hand.cards]);
+      });
+      const scores = new Map([...cardsByPlayer].map(([playerId, cards]) => [playerId, scoreHand(cards, settings, tableRound)]));
+      return { cardsByPlayer, scores };
+  }, [hands, settings, tableRound]);
+
+  const playersToSave = players.filter(p => cardsByPlayer.has(p.id) && !hasScoredRound(p));
+
+  const handleSave = async () => {
+      if (isSavingRef.current) return;
+      isSavingRef.current = true;
+      setIsSaving(true);
+      // One photo shows every hand, so all the rounds share it
+      const photoId = image ? await saveScanPhoto(image) : undefined;
+      const rounds = playersToSave.map(p => {
+            const cards = cardsByPlayer.get(p.id)!;
+            const round: Round = { type: 'scan', id: uuidv4(), cards, melds: scores.get(p.id)?.melds, photoId, timestamp: Date.now() };
+            return { playerId: p.id, round };
+        });
+      // Remember where everyone sat so the next round's photo is assigned for them
+      const seats: Record<string, SeatPosition> = {};
+      hands.forEach(h => {
+          if (h.playerId && h.center && !seats[h.playerId]) seats[h.playerId] = h.center;
+      });
+      saveSeats(seats);
+      onComplete(rounds);
+  };
+
+  const deck = getGameDeck(settings);
+  const deckRanks = getDeckRanks(deck);
+  const deckSuits = getDeckSuits(deck);
+  const colorOf = (index: number) => HAND_COLORS[index % HAND_COLORS.length];
+  const handLabel = (hand: TableHand, index: number) => players.find(p => p.id === hand.playerId)?.name || `Hand ${index + 1}`;
+  const isUncertain = (cardId: string) => !checkedCardIds.has(cardId) && !!readings[cardId] && isLowConfidence(readings[cardId]);
+  const overlayBoxes = hands.flatMap((hand, h) => hand.cards
+    .filter(c => readings[c.id]?.box)
+    .map(c => ({ cardId: c.id, box: readings[c.id].box!, label: formatCard(c), isUncertain: isUncertain(c.id), color: colorOf(h) })));
+  const playersWithoutHand = players.filter(p => !cardsByPlayer.has(p.id) && !hasScoredRound(p));
+  // Every hand is in the one photo, so the table is checked as a whole
+  const deckIssues = findOverCounts(hands.flatMap(h => h.cards), deck);
+
+  if (isEditingPhoto && originalImage) {
+    return <PhotoEditor image={originalImage} edits={photoEdits} onApply={handleApplyEdits} onCancel={handleCancelEdits} />;
+  }
+
+  if (!image) {
+    return <CameraCapture title="Scan the Whole Table" onCapture={handleCapture} onCancel={onCancel} />;
+  }
+
+  return (
+    <div className="flex flex-col h-full bg-felt-900 overflow-hidden">
+      <div className="relative h-[35dvh] bg-black shrink-0">
+        <CardBoxOverlay image={image} boxes={overlayBoxes} activeCardId={selectedCardId} onSelect={setSelectedCardId} />
+        <button onClick={handleRetake} className="absolute top-4 left-4 bg-black/50 p-2 rounded-full text-white backdrop-blur hover:bg-black/70 transition-colors">
+            <IconChevronLeft className="w-5 h-5" />
+        </button>
+        {originalImage && !isProcessing && (
+            <button onClick={() => setIsEditingPhoto(true)} className="absolute top-4 right-4 bg-black/50 px-3 py-2 rounded-full text-white text-xs font-bold backdrop-blur hover:bg-black/70 transition-colors">
+                Crop & Rescan
+            </button>
+        )}
+      </div>
+
+      <div className="flex-1 bg-felt-900 -mt-4 rounded-t-2xl relative z-10 p-4 flex flex-col shadow-2xl border-t border-slate-800 min-h-0">
+        {isProcessing ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-emerald-400 space-y-4">
+             <div className="w-12 h-12 border-4 border-emerald-500/30 border-t-emerald-500 rounded-full animate-spin"></div>
+             <p className="animate-pulse text-lg font-medium">Finding everyone's cards...</p>
+          </div>
+        ) : error ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center">
+            <div className="bg-red-500/10 p-4 rounded-full mb-4"><IconX className="w-8 h-8 text-red-500" /></div>
+            <p className="text-slate-300 mb-6 max-w-xs">{describeRecognitionError(error)}</p>
+            {queueFailed && (
+                <p className="text-sm text-red-400 mb-6 max-w-xs">
+                    This device couldn't store the photo for later (storage full or blocked). Enter the cards by hand, or try again.
+                </p>
+            )}
+            <div className="w-full space-y-3">
+                {/* Transient failures are worth another go with the same photo */}
+                <Button onClick={() => error.isTransient ? processImage(image) : handleRetake()} fullWidth>
+                    {error.isTransient ? 'Try Again' : 'Retake Photo'}
+                </Button>
+                {/* Worth reading later, once the connection or quota is back */}
+                {canQueue && !queueFailed && (error.isTransient || error.kind === 'quota' || isFallbackRead) && (
+                    <Button variant="secondary" onClick={handleAnalyzeLater} fullWidth>
+                        Analyze Later
+                    </Button>
+                )}
+                <Button variant="secondary" onClick={handleEnterByHand} fullWidth>
+                    Enter Cards by Hand
+                </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+             {recognizer === 'local' && <LocalReadingNotice />}
+             <UnreadableCards cards={unreadable} onDismiss={(index) => setUnreadable(unreadable.filter((_, i) => i !== index))} />
+             <DeckWarnings handIssues={deckIssues} roundIssues={[]} />
+
+             <div className="flex-1 overflow-y-auto mb-4 space-y-3 custom-scrollbar min-h-0">
+                {hands.length === 0 && (
+                    <p className="text-center text-slate-400 py-10">No cards found on the table.</p>
+                )}
+                {hands.map((hand, h) => {
+                    const player = players.find(p => p.id === hand.playerId);
+                    const selectedCard = hand.cards.find(c => c.id === selectedCardId);
+                    return (
+                        <div key={hand.id} className="bg-slate-800/50 rounded-xl p-3 border border-slate-700/50 space-y-3">
+                            <div className="flex items-center gap-3">
+                                <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: colorOf(h) }} />
+                                <select
+                                    value={hand.playerId || ''}
+                                    onChange={(e) => updateHand(hand.id, { playerId: e.target.value || null })}
+                                    className="flex-1 bg-slate-700 text-white rounded px-2 py-1.5 text-sm font-bold border border-slate-600 focus:border-emerald-500 outline-none"
+                                >
+                                    <option value="">Nobody (skip)</option>
+                                    {players.map(p => (
+                                        <option key={p.id} value={p.id}>{p.name}{hasScoredRound(p) ? ' (already scored)' : ''}</option>
+                                    ))}
+                                </select>
+                                <span className="text-xl font-black text-emerald-400 w-12 text-right">
+                                    {player ? scores.get(player.id)?.total ?? 0 : '–'}
+                                </span>
+                            </div>
+                            {player && hasScoredRound(player) && (
+                                <p className="text-xs text-amber-300">
+                                    {player.name} already has a score for round {tableRound}. This hand won't be saved; edit that round to change it.
+                                </p>
+                            )}
+                            {!hand.center && hand.cards.some(c => readings[c.id] && !readings[c.id].box) && (
+                                <p className="text-xs text-slate-500">The recognizer couldn't tell where these cards were.</p>
+                            )}
+                            <div className="flex flex-wrap gap-1.5">
+                                {hand.cards.map(card => (
+                                    <button
+                                        key={card.id}
+                                        type="button"
+                                        onClick={() => setSelectedCardId(card.id === selectedCardId ? null : card.id)}
+                                        className={`px-2 py-1 rounded-md text-sm font-bold border transition-colors ${
+                                            card.id === selectedCardId
+                                                ? 'bg-emerald-500/20 border-emerald-500 text-emerald-300'
+                                                : isUncertain(card.id)
+                                                    ? 'bg-amber-500/10 border-amber-400/60 text-amber-300'
+                                                    : 'bg-slate-700/60 border-slate-600 text-slate-200'
+                                        }`}
+                                    >
+                                        {formatCard(card)}
+                                    </button>
+                                ))}
+                                <button
+                                    type="button"
+                                    onClick={() => handleAddCard(hand)}
+                                    className="px-2 py-1 rounded-md text-sm font-bold border border-dashed border-slate-600 text-slate-400 hover:text-white hover:border-slate-500"
+                                    title="Add a card the recognizer missed"
+                                >
+                                    <IconPlus className="w-4 h-4" />
+                                </button>
+                            </div>
+                            {selectedCard && (
+                                <div className="space-y-2">
+                                    {isUncertain(selectedCard.id) && (
+                                        <UncertainCard
+                                            reading={readings[selectedCard.id]}
+                                            onPick={(alternative) => handlePickAlternative(hand, selectedCard.id, alternative)}
+                                            onConfirm={() => markChecked(selectedCard.id)}
+                                        />
+                                    )}
+                                    <div className="flex items-center gap-2">
+                                        <select
+                                            value={selectedCard.rank}
+                                            onChange={(e) => handleUpdateCard(hand, selectedCard.id, { rank: e.target.value as CardRank })}
+                                            className="bg-slate-700 text-white rounded px-2 py-1 text-sm font-bold border border-slate-600 focus:border-emerald-500 outline-none w-16 text-center"
+                                        >
+                                            {deckRanks.map(r => <option key={r} value={r}>{r}</option>)}
+                                        </select>
+                                        <select
+                                            value={selectedCard.suit}
+                                            onChange={(e) => handleUpdateCard(hand, selectedCard.id, { suit: e.target.value as CardSuit })}
+                                            className="bg-slate-700 text-white rounded px-2 py-1 text-sm font-bold border border-slate-600 focus:border-emerald-500 outline-none flex-1 min-w-0"
+                                        >
+                                            {deckSuits.map(s => <option key={s} value={s}>{s}</option>)}
+                                        </select>
+                                        <select
+                                            value=""
+                                            onChange={(e) => handleMoveCard(hand, selectedCard.id, e.target.value === 'new' ? null : e.target.value)}
+                                            className="bg-slate-700 text-slate-300 rounded px-2 py-1 text-sm border border-slate-600 focus:border-emerald-500 outline-none flex-1 min-w-0"
+                                        >
+                                            <option value="" disabled>Move to…</option>
+                                            {hands.map((other, o) => other.id !== hand.id && (
+                                                <option key={other.id} value={other.id}>{handLabel(other, o)}</option>
+                                            ))}
+                                            <option value="new">New hand</option>
+                                        </select>
+                                        <button
+                                            onClick={() => handleRemoveCard(hand, selectedCard.id)}
+                                            className="p-1.5 rounded bg-slate-700 text-slate-400 hover:text-red-400 hover:bg-slate-600"
+                                        >
+                                            <IconTrash className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+                <Button variant="ghost" fullWidth onClick={handleAddHand} className="border-2 border-dashed border-slate-700 hover:border-slate-600 py-2 text-sm">
+                    <IconPlus className="w-4 h-4 mr-2" /> Add Hand
+                </Button>
+                {hands.length > 0 && playersWithoutHand.length > 0 && (
+                    <p className="text-xs text-slate-500 text-center">
+                        No round for {playersWithoutHand.map(p => p.name).join(', ')}. Scan them on their own afterwards.
+                    </p>
+                )}
+             </div>
+
+             <div className="space-y-3 shrink-0">
+                <Button onClick={handleSave} fullWidth disabled={playersToSave.length === 0 || isSaving}>
+                    Save {playersToSave.length} {playersToSave.length === 1 ? 'Round' : 'Rounds'}
+                </Button>
+                {/* The chosen cloud reader does better than the on-device one; the photo can wait for it */}
+                {isFallbackRead && canQueue && !queueFailed && (
+                    <Button variant="secondary" onClick={handleAnalyzeLater} fullWidth>
+                        Analyze Later with the Cloud Reader
+                    </Button>
+                )}
+                {isFallbackRead && queueFailed && (
+                    <p className="text-xs text-center text-red-400">
+                        This device couldn't store the photo for later. Check the hands above and save them.
+                    </p>
+                )}
+                <Button variant="secondary" onClick={onCancel} fullWidth>
+                    {pendingScan ? 'Decide Later' : 'Cancel'}
+                </Button>
+                {pendingScan && onDiscardPending && (
+                    <Button variant="ghost" onClick={onDiscardPending} fullWidth>
+                        Discard Photo
+                    </Button>
+                )}
+             </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};